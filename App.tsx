@@ -1,43 +1,261 @@
-import React, { useState, useRef, useEffect } from 'react';
-import ReactCrop, { type Crop, centerCrop, makeAspectCrop } from 'react-image-crop';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import ReactCrop, { type Crop, type PercentCrop } from 'react-image-crop';
 import UploadArea from './components/UploadArea';
 import IconButton from './components/IconButton';
 import RatioSelector from './components/RatioSelector';
-import { RefreshIcon, RotateIcon, SparklesIcon } from './components/Icons';
-import { getSmartCrop } from './lib/gemini';
+import SplitOptions from './components/SplitOptions';
+import BatchQueue from './components/BatchQueue';
+import RatioChecklist from './components/RatioChecklist';
+import RatioPreviewGrid from './components/RatioPreviewGrid';
+import ConversionModeSelector from './components/ConversionModeSelector';
+import SmartCropEngineSelector from './components/SmartCropEngineSelector';
+import AiSettingsPanel from './components/AiSettingsPanel';
+import SubjectOverlay from './components/SubjectOverlay';
+import CustomRatioPanel from './components/CustomRatioPanel';
+import TransformControls from './components/TransformControls';
+import CropInspector from './components/CropInspector';
+import GuideOverlay from './components/GuideOverlay';
+import GuideToggles from './components/GuideToggles';
+import RecentSessions from './components/RecentSessions';
+import RecipeControls from './components/RecipeControls';
+import CropDataExport from './components/CropDataExport';
+import { ExpandIcon, RedoIcon, RefreshIcon, RotateIcon, SparklesIcon, SwapIcon, UndoIcon } from './components/Icons';
+import { getSmartCropCandidates, isSmartCropError, isSmartCropErrorCode } from './lib/smartCrop';
+import { type AiSettings, createOutpaintModel, createSmartCropProvider, loadAiSettings, storeAiSettings } from './lib/aiSettings';
+import { analyzeImage, findBestCrop } from './lib/localSmartCrop';
+import { createThumbnail, loadImage } from './lib/canvas';
+import { type ConversionMode, DEFAULT_FIT_OPTIONS, type FitOptions } from './lib/fit';
+import { type RenderSettings, renderOutput } from './lib/render';
+import { DEFAULT_OUTPUT_SIZE, type OutputSize, getNativeSize, getOutputDimensions, resolveOutputSize } from './lib/export';
+import { extendImage } from './lib/outpaint';
+import { DEFAULT_MASK_OPTIONS, type MaskOptions, canUseCircle } from './lib/mask';
+import { DEFAULT_METADATA_OPTIONS, type MetadataOptions, applyOrientation, hasMetadata, keepsColorProfile } from './lib/metadata';
+import { DEFAULT_PRINT_OPTIONS, type PrintOptions } from './lib/print';
+import { type Tile, getTileFileName, getTiles } from './lib/split';
+import { fitCropToSubject, getCenteredCrop } from './lib/crop';
+import { IDENTITY_TRANSFORM, type Transform, drawTransformed, getFrameCrop, getFrameSize, isSameTransform, mapBoxToFrame } from './lib/transform';
+import type { Guide } from './lib/guides';
+import { type History, createHistory, filterHistory, recordEdit, redoEdit, undoEdit } from './lib/history';
+import { type BatchItem, createBatchItem, getItemCrop, prepareBatchItem, releaseBatchItems, renderBatchItem, restoreBatchItem, toSavedItem } from './lib/batch';
+import { type SessionSummary, createSessionId, deleteSession, getCurrentSessionId, listSessions, loadSession, saveSession, setCurrentSessionId } from './lib/session';
+import { type CropRecipe, createRecipe, getRecipeCrop, parseRecipe } from './lib/recipe';
+import { type ResponsiveFile, buildCropData, buildPictureSnippet, getResponsiveFileName, getResponsiveWidths } from './lib/responsive';
+import { createZip, uniqueName } from './lib/zip';
+import { UNSUPPORTED_FORMAT_MESSAGE } from './lib/decode';
+import { type EncodeResult, type SizeEstimate, getEstimateSize } from './lib/encode';
+import { releaseRenderWorker, runRenderJob } from './lib/renderJob';
+import { type SourceImage, getImageSize } from './lib/surface';
+import { fetchImageFile, getClipboardImages, parseImageUrl } from './lib/import';
+import { downloadBlob, getBaseName, getFormatExtension, getRatioSuffix } from './lib/download';
 import DownloadOptions, { DownloadFormat } from './components/DownloadOptions';
+import { RATIOS, buildRatioGroups, isFreeRatio, swapRatio } from './lib/ratios';
+import { loadSavedRatios, storeSavedRatios } from './lib/ratioLibrary';
+import type { Ratio, SmartCropCandidate, SmartCropEngine } from './types';
 
 type AppState = 'idle' | 'loading' | 'success' | 'error';
-interface Ratio {
-  label: string;
-  value: number;
+
+
+// Longest side of the preview and editor canvases, in device pixels.
+const PREVIEW_MAX_EDGE = 1600;
+
+// Larger images are edited on a downscaled copy of at most this long edge;
+// exports always go back to the full-resolution file.
+const PROXY_MAX_EDGE = 2048;
+
+// How long edits settle before the session is written to IndexedDB.
+const SESSION_SAVE_DELAY_MS = 1000;
+
+// What undo/redo restores: one item's edits plus the ratio selection.
+interface EditSnapshot {
+  itemId: string;
+  crops: Record<string, PercentCrop>;
+  transform: Transform;
+  candidates: SmartCropCandidate[];
+  selectedCandidate: number;
+  selectedRatio: Ratio;
+  exportRatios: Ratio[];
 }
 
-const RATIOS: Ratio[] = [
-  { label: '16:9', value: 16 / 9 },
-  { label: '4:3', value: 4 / 3 },
-  { label: '1:1', value: 1 / 1 },
-  { label: '3:2', value: 3 / 2 },
-  { label: '5:4', value: 5 / 4 },
-  { label: '9:16', value: 9 / 16 },
-  { label: '1.85:1', value: 1.85 / 1 },
-  { label: '2.35:1', value: 2.35 / 1 },
-];
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Why AI smart crop didn't answer, for the notice shown with the fallback.
+const getSmartCropFailure = (e: unknown) => {
+  const code = e instanceof Error ? e.message : '';
+  if (code === 'API_KEY_NOT_CONFIGURED') return 'AI Smart Crop has no API key (see AI settings)';
+  if (code === 'AUTH_FAILED') return 'The API key was rejected';
+  if (code === 'QUOTA_EXCEEDED') return 'The AI quota or rate limit was reached';
+  if (code === 'NETWORK_ERROR') return 'The AI service could not be reached';
+  if (code === 'TIMEOUT') return 'The AI service took too long to answer';
+  if (code === 'BAD_RESPONSE') return 'The AI service returned an unusable answer';
+  return 'AI Smart Crop failed';
+};
+
+const formatAngle = (transform: Transform) =>
+  transform.straighten === 0
+    ? `${transform.rotation}°`
+    : `${transform.rotation}° ${transform.straighten > 0 ? '+' : '−'} ${Math.abs(transform.straighten).toFixed(1)}°`;
 
 const App: React.FC = () => {
-  const [originalImage, setOriginalImage] = useState<string | null>(null);
-  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Informational messages, e.g. when smart crop fell back to the local engine.
+  const [notice, setNotice] = useState<string | null>(null);
   const [appState, setAppState] = useState<AppState>('idle');
+  // `selectedRatio` is the one open in the crop editor; `exportRatios` are
+  // all the ratios ticked for export, and always include it.
   const [selectedRatio, setSelectedRatio] = useState<Ratio>(RATIOS[0]);
+  const [exportRatios, setExportRatios] = useState<Ratio[]>([RATIOS[0]]);
+  // Ratios typed in this session, and the ones the user chose to keep.
+  const [customRatios, setCustomRatios] = useState<Ratio[]>([]);
+  const [savedRatios, setSavedRatios] = useState<Ratio[]>(loadSavedRatios);
   const [crop, setCrop] = useState<Crop>();
-  const [completedCrop, setCompletedCrop] = useState<Crop | null>(null);
-  const [rotation, setRotation] = useState(0);
-  const [isSmartCropping, setIsSmartCropping] = useState(false);
+  const [completedCrop, setCompletedCrop] = useState<PercentCrop | null>(null);
+  const [transform, setTransform] = useState<Transform>(IDENTITY_TRANSFORM);
+  // The loaded working image, drawn transformed into the editor canvas.
+  const [editorImage, setEditorImage] = useState<SourceImage | null>(null);
+  const [guides, setGuides] = useState<Guide[]>([]);
+  // The rendered preview's size, for laying the guides over it.
+  const [previewSize, setPreviewSize] = useState<{ width: number; height: number } | null>(null);
+  const [mode, setMode] = useState<ConversionMode>('crop');
+  const [fitOptions, setFitOptions] = useState<FitOptions>(DEFAULT_FIT_OPTIONS);
+  const [isExtending, setIsExtending] = useState(false);
+  const [smartCropEngine, setSmartCropEngine] = useState<SmartCropEngine>('ai');
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+  const [smartCropInstruction, setSmartCropInstruction] = useState('');
+  const [outputSize, setOutputSize] = useState<OutputSize>(DEFAULT_OUTPUT_SIZE);
+  const [metadataOptions, setMetadataOptions] = useState<MetadataOptions>(DEFAULT_METADATA_OPTIONS);
+  const [printOptions, setPrintOptions] = useState<PrintOptions>(DEFAULT_PRINT_OPTIONS);
+  const [format, setFormat] = useState<DownloadFormat>('image/webp');
+  const [quality, setQuality] = useState(0.9);
+  const [recentSessions, setRecentSessions] = useState<SessionSummary[]>([]);
+  const [maskOptions, setMaskOptions] = useState<MaskOptions>(DEFAULT_MASK_OPTIONS);
+  const [history, setHistory] = useState<History<EditSnapshot>>(createHistory);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const imgRef = useRef<HTMLImageElement | null>(null);
+  const editorCanvasRef = useRef<HTMLCanvasElement>(null);
   const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Async work (smart crop, export) checks this to see whether the item it
+  // started on is still the one open in the editor.
+  const activeIdRef = useRef<string | null>(null);
+  const itemsRef = useRef<BatchItem[]>([]);
+  const selectedRatioRef = useRef<Ratio>(RATIOS[0]);
+  // Snapshots for the history are taken from these, since smart crop records
+  // its edit after an await.
+  const exportRatiosRef = useRef<Ratio[]>([]);
+  const cropRef = useRef<Crop | undefined>(undefined);
+  const transformRef = useRef<Transform>(IDENTITY_TRANSFORM);
+  const isDraggingRef = useRef(false);
+  // Running AI smart crop requests by item, for cancelling them.
+  const smartCropAbortRef = useRef(new Map<string, AbortController>());
+  const extendAbortRef = useRef<AbortController | null>(null);
+  // The saved session the open images belong to (see lib/session). Null on
+  // the upload screen.
+  const sessionIdRef = useRef<string | null>(null);
+
+  const activeItem = items.find(item => item.id === activeId) ?? null;
+  const editorFrame = editorImage && activeItem && getFrameSize(activeItem.naturalWidth, activeItem.naturalHeight, transform);
+  const originalImage = activeItem?.url ?? null;
+  const imageFile = activeItem?.file ?? null;
+  const isSmartCropping = activeItem?.smartCrop === 'running';
+  const renderSettings = useMemo<RenderSettings>(() => ({ mode, fit: fitOptions, mask: maskOptions }), [mode, fitOptions, maskOptions]);
+  const activeExtension = activeItem?.extensions[selectedRatio.label];
+  const ratioGroups = useMemo(() => buildRatioGroups(savedRatios, customRatios), [savedRatios, customRatios]);
+
+  activeIdRef.current = activeId;
+  itemsRef.current = items;
+  selectedRatioRef.current = selectedRatio;
+  exportRatiosRef.current = exportRatios;
+  cropRef.current = crop;
+  transformRef.current = transform;
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setItems(current => current.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  // Keep the open item's stored crop and transform in step with the editor so
+  // switching items or ratios (or exporting the batch) picks up the latest edits.
+  useEffect(() => {
+    if (!activeId || !crop || crop.unit !== '%') return;
+    const percentCrop: PercentCrop = { ...crop, unit: '%' };
+    const label = selectedRatio.label;
+    setItems(current => current.map(item => (
+      item.id === activeId ? { ...item, crops: { ...item.crops, [label]: percentCrop }, transform } : item
+    )));
+  }, [crop, transform, selectedRatio]);
+
+  useEffect(() => () => releaseBatchItems(itemsRef.current), []);
+
+  const refreshRecentSessions = () => {
+    listSessions().then(setRecentSessions).catch(() => setRecentSessions([]));
+  };
+
+  // Reopen the session that was open when the page was last closed.
+  useEffect(() => {
+    const id = getCurrentSessionId();
+    if (id) openSession(id);
+    refreshRecentSessions();
+  }, []);
+
+  // Save the session once edits settle. Images still being read are left
+  // out until they're ready.
+  useEffect(() => {
+    const sessionId = sessionIdRef.current;
+    const saveable = items.filter(item => item.url);
+    if (!sessionId || saveable.length === 0) return;
+    const timer = setTimeout(() => {
+      const active = saveable.find(item => item.id === activeId) ?? saveable[0];
+      const session = {
+        id: sessionId,
+        updatedAt: Date.now(),
+        name: saveable[0].file.name,
+        thumbnail: active.thumbnail,
+        items: saveable.map(toSavedItem),
+        activeId,
+        selectedRatio,
+        exportRatios,
+        outputSize,
+        mode,
+        fitOptions,
+        maskOptions,
+        format,
+        quality,
+      };
+      saveSession(session, Object.fromEntries(saveable.map(item => [item.id, item.file])))
+        .then(() => {
+          if (sessionIdRef.current === sessionId) setCurrentSessionId(sessionId);
+        })
+        .catch(e => console.error('Could not save the session:', e));
+    }, SESSION_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [items, activeId, selectedRatio, exportRatios, outputSize, mode, fitOptions, maskOptions, format, quality]);
+
+  useEffect(() => storeSavedRatios(savedRatios), [savedRatios]);
+
+  useEffect(() => storeAiSettings(aiSettings), [aiSettings]);
+
+  // Free the proxy's pixels once it's replaced or the editor closes.
+  useEffect(() => () => {
+    if (editorImage && !(editorImage instanceof HTMLImageElement)) editorImage.close();
+  }, [editorImage]);
+
+  // The editor shows the transformed frame, so the crop box is drawn in the
+  // same space the export is cut from.
+  useEffect(() => {
+    const canvas = editorCanvasRef.current;
+    if (!canvas || !editorImage) return;
+    const size = getImageSize(editorImage);
+    const frame = getFrameSize(size.width, size.height, transform);
+    const scale = Math.min(1, PREVIEW_MAX_EDGE / Math.max(frame.width, frame.height));
+    canvas.width = Math.max(1, Math.round(frame.width * scale));
+    canvas.height = Math.max(1, Math.round(frame.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.imageSmoothingQuality = 'high';
+    drawTransformed(ctx, editorImage, transform, 0, 0, canvas.width, canvas.height);
+  }, [editorImage, transform]);
 
   useEffect(() => {
     if (!completedCrop || !previewCanvasRef.current || !imgRef.current) {
@@ -46,225 +264,879 @@ const App: React.FC = () => {
 
     const image = imgRef.current;
     const canvas = previewCanvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const scaleX = image.naturalWidth / image.width;
-    const scaleY = image.naturalHeight / image.height;
-    const pixelRatio = window.devicePixelRatio || 1;
-
-    const cropX = completedCrop.x * scaleX;
-    const cropY = completedCrop.y * scaleY;
-    const cropWidth = completedCrop.width * scaleX;
-    const cropHeight = completedCrop.height * scaleY;
-    
-    // Prevent errors with zero dimensions
-    if (cropWidth <= 0 || cropHeight <= 0) {
-        return;
-    }
+    const naturalCrop = getFrameCrop(completedCrop, image.naturalWidth, image.naturalHeight, transform);
 
-    const isRotated = rotation === 90 || rotation === 270;
-    const canvasWidth = isRotated ? cropHeight : cropWidth;
-    const canvasHeight = isRotated ? cropWidth : cropHeight;
+    // The preview is display-only: it is sized for the screen and capped, and
+    // exports are rendered separately at exact pixel sizes.
+    const native = getNativeSize(image, naturalCrop, selectedRatio.value, transform, renderSettings, activeExtension);
+    const longEdge = Math.max(native.width, native.height);
+    const pixelRatio = Math.min(window.devicePixelRatio || 1, PREVIEW_MAX_EDGE / longEdge);
 
-    canvas.width = Math.floor(canvasWidth * pixelRatio);
-    canvas.height = Math.floor(canvasHeight * pixelRatio);
+    // Draw from the proxy while it still has enough pixels for the preview.
+    // The AI extension is sized against the full image, so it keeps that.
+    const proxyScale = editorImage ? getImageSize(editorImage).width / image.naturalWidth : 1;
+    const source = editorImage && !activeExtension && proxyScale < 1 && proxyScale >= pixelRatio ? editorImage : image;
+    const sourceScale = source === image ? 1 : proxyScale;
+    const sourceSize = getImageSize(source);
 
-    ctx.scale(pixelRatio, pixelRatio);
-    ctx.imageSmoothingQuality = 'high';
-    ctx.save();
-    
-    ctx.translate(canvasWidth / 2, canvasHeight / 2);
-    ctx.rotate((rotation * Math.PI) / 180);
-    ctx.translate(-cropWidth / 2, -cropHeight / 2);
-    
-    ctx.drawImage(
-      image,
-      cropX,
-      cropY,
-      cropWidth,
-      cropHeight,
-      0,
-      0,
-      cropWidth,
-      cropHeight
+    renderOutput(
+      canvas,
+      source,
+      getFrameCrop(completedCrop, sourceSize.width, sourceSize.height, transform),
+      selectedRatio.value,
+      transform,
+      renderSettings,
+      pixelRatio / sourceScale,
+      activeExtension
     );
+    setPreviewSize({ width: canvas.width, height: canvas.height });
+  }, [completedCrop, transform, selectedRatio, renderSettings, activeExtension, editorImage]);
 
-    ctx.restore();
-  }, [completedCrop, rotation]);
-
-  const handleFile = (file: File) => {
-    if (!file.type.startsWith('image/')) {
-      setError('Invalid file type. Please upload an image.');
+  const handleFiles = (files: File[]) => {
+    const newItems = files.map(createBatchItem);
+    const firstImage = newItems.find(item => item.status !== 'error');
+    if (!firstImage) {
+      releaseBatchItems(newItems);
+      setError(UNSUPPORTED_FORMAT_MESSAGE);
       setAppState('error');
       return;
     }
 
+    releaseBatchItems(items);
+    sessionIdRef.current = createSessionId();
     setError(null);
+    setItems(newItems);
+    setHistory(createHistory());
+    setActiveId(firstImage.id);
+    setCrop(undefined);
+    setCompletedCrop(null);
+    setTransform(IDENTITY_TRANSFORM);
+    setAppState('success');
+
+    newItems
+      .filter(item => item.status === 'pending')
+      .forEach(item => prepareBatchItem(item).then(changes => {
+        updateItem(item.id, changes);
+        if (changes.status === 'error' && item.id === activeIdRef.current) skipFailedItem(item.id, changes.error);
+      }));
+  };
+
+  const openSession = async (id: string) => {
+    // Also keeps a second call for the same session (a double click, or
+    // StrictMode re-running the restore effect) from opening it twice.
+    if (sessionIdRef.current === id) return;
+    sessionIdRef.current = id;
     setAppState('loading');
-    setOriginalImage(null);
-    setImageFile(null);
+    const loaded = await loadSession(id).catch(() => null);
+    // Something else was opened meanwhile.
+    if (sessionIdRef.current !== id) return;
+    if (!loaded) {
+      sessionIdRef.current = null;
+      setCurrentSessionId(null);
+      setAppState('idle');
+      refreshRecentSessions();
+      return;
+    }
+
+    const { session, files } = loaded;
+    const restored = session.items
+      .filter(saved => files[saved.id])
+      .map(saved => restoreBatchItem(saved, new File([files[saved.id]], saved.name, { type: files[saved.id].type })));
+    const active = restored.find(item => item.id === session.activeId) ?? restored[0];
+    // Ratios typed in that session aren't in the selector yet.
+    const listed = buildRatioGroups(savedRatios, []).flatMap(group => group.ratios);
+    setCustomRatios(session.exportRatios.filter(ratio => !listed.some(r => r.label === ratio.label)));
+
+    releaseBatchItems(items);
+    setError(null);
+    setItems(restored);
+    setHistory(createHistory());
+    setActiveId(active.id);
+    setSelectedRatio(session.selectedRatio);
+    setExportRatios(session.exportRatios);
+    setOutputSize(session.outputSize);
+    setMode(session.mode);
+    setFitOptions(session.fitOptions);
+    setMaskOptions(session.maskOptions);
+    setFormat(session.format as DownloadFormat);
+    setQuality(session.quality);
     setCrop(undefined);
     setCompletedCrop(null);
-    setRotation(0);
-
-    setImageFile(file);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const imageUrl = e.target?.result as string;
-      setOriginalImage(imageUrl);
-      setAppState('success');
-    };
-    reader.onerror = () => {
-      setError('Could not read file.');
+    setTransform(active.transform);
+    setAppState('success');
+
+    restored.forEach(item => prepareBatchItem(item).then(changes => {
+      updateItem(item.id, changes);
+      if (changes.status === 'error' && item.id === activeIdRef.current) skipFailedItem(item.id, changes.error);
+    }));
+  };
+
+  const handleRemoveSession = (id: string) => {
+    deleteSession(id)
+      .catch(e => console.error('Could not remove the session:', e))
+      .then(refreshRecentSessions);
+  };
+
+  // Moves the editor off an item that turned out to be unreadable.
+  const skipFailedItem = (id: string, message = 'Could not read file.') => {
+    const next = itemsRef.current.find(item => item.id !== id && item.status !== 'error');
+    if (next) {
+      selectItem(next.id);
+    } else {
+      setError(message);
       setAppState('error');
-    };
-    reader.readAsDataURL(file);
+    }
   };
-  
+
+  const selectItem = (id: string) => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (!item || id === activeId) return;
+    setActiveId(id);
+    setTransform(item.transform);
+    setCrop(item.crops[selectedRatio.label]);
+    setCompletedCrop(null);
+  };
+
+  const removeItem = (id: string) => {
+    const remaining = items.filter(item => item.id !== id);
+    releaseBatchItems(items.filter(item => item.id === id));
+    if (!remaining.some(item => item.status !== 'error')) {
+      handleReset();
+      return;
+    }
+    setItems(remaining);
+    setHistory((current: History<EditSnapshot>) => filterHistory(current, entry => entry.itemId !== id));
+    if (id === activeId) {
+      const next = remaining.find(item => item.status !== 'error')!;
+      setActiveId(next.id);
+      setTransform(next.transform);
+      setCrop(next.crops[selectedRatio.label]);
+      setCompletedCrop(null);
+    }
+  };
+
   function onImageLoad(e: React.SyntheticEvent<HTMLImageElement>) {
-    imgRef.current = e.currentTarget;
-    const { width, height } = e.currentTarget;
-    const percentCrop = centerCrop(
-      makeAspectCrop(
-        { unit: '%', width: 90 },
-        selectedRatio.value / (isRotated(rotation) ? height/width : 1),
-        width,
-        height
-      ),
-      width,
-      height
-    );
+    const image = e.currentTarget;
+    imgRef.current = image;
+    setEditorImage(image);
+    const longEdge = Math.max(image.naturalWidth, image.naturalHeight);
+    if (longEdge > PROXY_MAX_EDGE) {
+      const scale = PROXY_MAX_EDGE / longEdge;
+      createImageBitmap(image, {
+        resizeWidth: Math.round(image.naturalWidth * scale),
+        resizeHeight: Math.round(image.naturalHeight * scale),
+        resizeQuality: 'high',
+      }).then(proxy => {
+        if (imgRef.current === image) setEditorImage(proxy);
+        else proxy.close();
+      }).catch(() => {});
+    }
+    const frame = getFrameSize(image.naturalWidth, image.naturalHeight, transform);
+    // Re-opening a queued item restores its own crop instead of recentering.
+    const percentCrop = activeItem?.crops[selectedRatio.label] ?? getCenteredCrop(selectedRatio.value, frame.width, frame.height);
     setCrop(percentCrop);
-    setCompletedCrop(pixelToPercent(percentCrop, width, height));
+    setCompletedCrop(percentCrop);
+  }
+
+  function onImageError() {
+    if (!activeId) return;
+    updateItem(activeId, { status: 'error', error: 'Could not read file.' });
+    skipFailedItem(activeId);
   }
-  
-  const isRotated = (currentRotation: number) => currentRotation === 90 || currentRotation === 270;
-
-  const pixelToPercent = (pixelCrop: Crop, width: number, height: number): Crop => ({
-      unit: 'px',
-      x: (pixelCrop.x / 100) * width,
-      y: (pixelCrop.y / 100) * height,
-      width: (pixelCrop.width / 100) * width,
-      height: (pixelCrop.height / 100) * height,
-  });
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) handleFile(file);
+    const files: File[] = event.target.files ? Array.from(event.target.files) : [];
+    if (files.length > 0) handleFiles(files);
   };
   
-  const handleFileDrop = (file: File) => handleFile(file);
+  const handleFilesDrop = (files: File[]) => handleFiles(files);
 
-  const handleDownload = (format: DownloadFormat, quality?: number) => {
-    const canvas = previewCanvasRef.current;
-    if (!canvas || !completedCrop || completedCrop.width === 0) return;
-    
-    const dataUrl = canvas.toDataURL(format, quality);
-    const link = document.createElement('a');
-    link.href = dataUrl;
-    const extension = format.split('/')[1];
-    link.download = `converted-image-${selectedRatio.label.replace(':', 'x')}.${extension}`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  };
-
-  const handleCopy = (format: DownloadFormat, quality?: number): Promise<boolean> => {
-    return new Promise((resolve) => {
-      const canvas = previewCanvasRef.current;
-      if (!canvas || !completedCrop || completedCrop.width === 0) return resolve(false);
-
-      canvas.toBlob(async (blob) => {
-        if (!blob) return resolve(false);
-        try {
-          await navigator.clipboard.write([new ClipboardItem({ [blob.type]: blob })]);
-          resolve(true);
-        } catch (err) {
-          console.error('Failed to copy image:', err);
-          resolve(false);
-        }
-      }, format, quality);
+  const handleImportUrl = async (url: string): Promise<string | null> => {
+    try {
+      handleFiles([await fetchImageFile(url)]);
+      return null;
+    } catch (e) {
+      const code = e instanceof Error ? e.message : '';
+      if (code === 'INVALID_URL') return 'Enter a full http:// or https:// address.';
+      if (code === 'FETCH_BLOCKED') return 'The image could not be loaded. The site may not allow other pages to use its images (CORS), or it is unreachable. Download it and upload the file instead.';
+      if (code === 'HTTP_ERROR') return 'The server returned an error for that address.';
+      if (code === 'NOT_AN_IMAGE') return 'That address does not point to an image.';
+      return 'Could not import the image.';
+    }
+  };
+
+  // Pasting anywhere opens clipboard images, or an image URL when pasted
+  // outside a text field.
+  useEffect(() => {
+    const onPaste = (event: ClipboardEvent) => {
+      if (!event.clipboardData) return;
+      const files = getClipboardImages(event.clipboardData);
+      if (files.length > 0) {
+        event.preventDefault();
+        handleFiles(files);
+        return;
+      }
+      if (isEditableTarget(event.target)) return;
+      const text = event.clipboardData.getData('text/plain');
+      if (!parseImageUrl(text)) return;
+      event.preventDefault();
+      handleImportUrl(text).then(message => {
+        if (!message) return;
+        setError(message);
+        // Nothing else on the upload screen shows errors.
+        if (appState === 'idle') setAppState('error');
+      });
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  });
+
+  // Renders and encodes the open item at the chosen output size, with its
+  // metadata, at `quality` or fitted to `targetBytes`. The work runs in the
+  // render worker from the original file, independent of the preview canvas
+  // and the display's pixel ratio. Given a `tile`, only that tile of a split
+  // ratio is encoded.
+  const encodeActiveExport = async (
+    format: DownloadFormat,
+    quality = 1,
+    targetBytes: number | null = null,
+    size = resolveOutputSize(selectedRatio, outputSize),
+    tile?: Tile,
+  ): Promise<EncodeResult | null> => {
+    if (!activeItem || !completedCrop || completedCrop.width === 0) return null;
+    const { id, file, metadata } = activeItem;
+    return runRenderJob({
+      file,
+      sourceKey: id,
+      unmanaged: keepsColorProfile(metadata, metadataOptions),
+      crop: completedCrop,
+      ratio: selectedRatio.value,
+      transform,
+      settings: renderSettings,
+      outputSize: size,
+      extension: activeExtension && await createImageBitmap(activeExtension),
+      format,
+      quality,
+      targetBytes,
+      metadata,
+      metadataOptions,
+      // A tile is printed at the tile's own paper size.
+      print: (tile ? selectedRatio.split?.tile.print : selectedRatio.print) ?? null,
+      printOptions,
+      tile: tile && selectedRatio.split && { grid: selectedRatio.split, tile },
     });
   };
 
+  // The crop's pixels before and after the output size is applied.
+  const getExportDimensions = () => {
+    if (!imgRef.current || !completedCrop || completedCrop.width === 0) return null;
+    const native = getNativeSize(
+      imgRef.current,
+      getFrameCrop(completedCrop, imgRef.current.naturalWidth, imgRef.current.naturalHeight, transform),
+      selectedRatio.value,
+      transform,
+      renderSettings,
+      activeExtension,
+    );
+    return { native, output: getOutputDimensions(native, resolveOutputSize(selectedRatio, outputSize)) };
+  };
+
+  // Encodes a downscaled copy and scales its size up to the real output's,
+  // so editing a large image doesn't keep the worker busy with full-size
+  // encodes (up to eight of them for a target size). A target is scaled
+  // down the same way. A new identity whenever the output would change,
+  // which is what makes DownloadOptions refresh its estimate.
+  const estimateExport = useCallback(
+    async (format: DownloadFormat, quality: number, targetBytes: number | null): Promise<SizeEstimate | null> => {
+      const dimensions = getExportDimensions();
+      if (!dimensions) return null;
+      const { width, height, factor } = getEstimateSize(dimensions.output);
+      const size = factor > 1
+        ? { ...resolveOutputSize(selectedRatio, outputSize), mode: 'exact' as const, width, height }
+        : undefined;
+      const result = await encodeActiveExport(format, quality, targetBytes === null ? null : targetBytes / factor, size);
+      return result && {
+        bytes: Math.round(result.blob.size * factor),
+        quality: result.quality,
+        withinTarget: result.withinTarget,
+        approximate: factor > 1,
+      };
+    },
+    [activeItem, completedCrop, transform, selectedRatio, renderSettings, outputSize, activeExtension, metadataOptions, printOptions],
+  );
+
+  const handleDownload = async (format: DownloadFormat, quality?: number, targetBytes: number | null = null) => {
+    try {
+      const result = await encodeActiveExport(format, quality, targetBytes);
+      if (!result) return;
+      downloadBlob(result.blob, `converted-image-${getRatioSuffix(selectedRatio.label)}.${getFormatExtension(format)}`);
+    } catch (err) {
+      console.error('Failed to export image:', err);
+      setError('Could not export the image.');
+    }
+  };
+
+  // Exports each tile of a split ratio as "<original name>-01.<ext>" and so
+  // on, numbered in posting order, in one ZIP.
+  const handleDownloadTiles = async (format: DownloadFormat, quality?: number, targetBytes: number | null = null) => {
+    if (!activeItem || !selectedRatio.split) return;
+    const baseName = getBaseName(activeItem.file.name);
+    const tiles = getTiles(selectedRatio.split);
+    const entries: { name: string; data: Blob }[] = [];
+    try {
+      for (const [index, tile] of tiles.entries()) {
+        const result = await encodeActiveExport(format, quality, targetBytes, undefined, tile);
+        if (!result) return;
+        entries.push({ name: getTileFileName(baseName, index, tiles.length, getFormatExtension(format)), data: result.blob });
+      }
+    } catch (err) {
+      console.error('Failed to export the tiles:', err);
+      setError('Could not export the tiles.');
+      return;
+    }
+    downloadBlob(await createZip(entries), `${baseName}-${getRatioSuffix(selectedRatio.label)}.zip`);
+  };
+
+  // Exports every queued image at every ticked ratio, named
+  // "<original name>-<ratio>.<ext>", and packages them into one ZIP. Split
+  // ratios export their tiles, numbered as in handleDownloadTiles.
+  const handleDownloadAll = async (format: DownloadFormat, quality?: number, targetBytes: number | null = null) => {
+    const queue = itemsRef.current.filter(item => item.status !== 'error' && item.status !== 'pending');
+    const ratios = exportRatios;
+    const extension = getFormatExtension(format);
+    const takenNames = new Set<string>();
+    const entries: { name: string; data: Blob }[] = [];
+
+    for (const item of queue) {
+      updateItem(item.id, { status: 'processing', progress: 0, error: undefined });
+      try {
+        for (const [index, ratio] of ratios.entries()) {
+          const name = `${getBaseName(item.file.name)}-${getRatioSuffix(ratio.label)}`;
+          const tiles: (Tile | undefined)[] = ratio.split ? getTiles(ratio.split) : [undefined];
+          for (const [tileIndex, tile] of tiles.entries()) {
+            // Read the freshest copy so edits made while the export runs are kept.
+            const latest = itemsRef.current.find(i => i.id === item.id) ?? item;
+            const blob = await renderBatchItem(latest, ratio, renderSettings, outputSize, format, quality, metadataOptions, printOptions, targetBytes, tile);
+            const fileName = tile ? getTileFileName(name, tileIndex, tiles.length, extension) : `${name}.${extension}`;
+            entries.push({ name: uniqueName(fileName, takenNames), data: blob });
+          }
+          updateItem(item.id, { progress: Math.round(((index + 1) / ratios.length) * 100) });
+        }
+        updateItem(item.id, { status: 'done', progress: 100 });
+      } catch (e) {
+        console.error(`Failed to export ${item.file.name}:`, e);
+        updateItem(item.id, { status: 'error', progress: 0, error: 'Export failed.' });
+      }
+    }
+
+    if (entries.length === 0) return;
+    const baseName = queue.length === 1 ? getBaseName(queue[0].file.name) : 'converted-images';
+    const zipName = ratios.length === 1 ? `${baseName}-${getRatioSuffix(ratios[0].label)}.zip` : `${baseName}.zip`;
+    downloadBlob(await createZip(entries), zipName);
+  };
+
+  const handleCopy = async (format: DownloadFormat, quality?: number): Promise<boolean> => {
+    if (!completedCrop || completedCrop.width === 0) return false;
+    try {
+      // Handing the clipboard a promise keeps the write inside the click's
+      // user activation while the worker encodes.
+      const blob = encodeActiveExport(format, quality).then(result => {
+        if (!result) throw new Error('Crop has no area');
+        return result.blob;
+      });
+      await navigator.clipboard.write([new ClipboardItem({ [format]: blob })]);
+      return true;
+    } catch (err) {
+      console.error('Failed to copy image:', err);
+      return false;
+    }
+  };
+
+  const handleExportCropData = () => {
+    if (!activeItem || !completedCrop) return;
+    const data = buildCropData(activeItem, exportRatios, selectedRatio, completedCrop);
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `${getBaseName(activeItem.file.name)}-crops.json`);
+  };
+
+  // The responsive set is rendered in the chosen format plus, when that's
+  // WebP or AVIF, JPEG for browsers without it; the <img> takes the latter.
+  // A PDF is no use in a <picture>, so its set is JPEG.
+  const getResponsiveFormats = (): DownloadFormat[] =>
+    format === 'application/pdf' ? ['image/jpeg']
+      : format === 'image/jpeg' || format === 'image/png' ? [format] : [format, 'image/jpeg'];
+
+  const getResponsiveFiles = (fileFormat: DownloadFormat): ResponsiveFile[] =>
+    activeItem && nativeDimensions
+      ? getResponsiveWidths(nativeDimensions.width).map(width => ({
+        name: getResponsiveFileName(getBaseName(activeItem.file.name), selectedRatio, width, fileFormat),
+        width,
+      }))
+      : [];
+
+  const getPictureSnippet = () => {
+    if (!nativeDimensions) return '';
+    const [primary, fallback] = getResponsiveFormats();
+    const sources = fallback ? [{ format: primary, files: getResponsiveFiles(primary) }] : [];
+    return buildPictureSnippet(sources, getResponsiveFiles(fallback ?? primary), nativeDimensions.width / nativeDimensions.height);
+  };
+
+  // Zips the open crop at every responsive width with the snippet and the
+  // crop data, so the set can be dropped into a site as it is.
+  const handleExportResponsive = async () => {
+    if (!activeItem || !completedCrop) return;
+    const item = activeItem;
+    const entries: { name: string; data: Blob }[] = [];
+    try {
+      for (const fileFormat of getResponsiveFormats()) {
+        for (const file of getResponsiveFiles(fileFormat)) {
+          const result = await encodeActiveExport(fileFormat, quality, null, { ...outputSize, mode: 'exact', width: file.width, height: 0 });
+          if (!result) return;
+          entries.push({ name: file.name, data: result.blob });
+        }
+      }
+    } catch (err) {
+      console.error('Failed to export the responsive set:', err);
+      setError('Could not export the responsive images.');
+      return;
+    }
+    entries.push({ name: 'picture.html', data: new Blob([getPictureSnippet()], { type: 'text/html' }) });
+    const data = buildCropData(item, exportRatios, selectedRatio, completedCrop);
+    entries.push({ name: 'crops.json', data: new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }) });
+    downloadBlob(await createZip(entries), `${getBaseName(item.file.name)}-${getRatioSuffix(selectedRatio.label)}-responsive.zip`);
+  };
+
+  const handleCopySnippet = async (): Promise<boolean> => {
+    try {
+      await navigator.clipboard.writeText(getPictureSnippet());
+      return true;
+    } catch (err) {
+      console.error('Failed to copy the snippet:', err);
+      return false;
+    }
+  };
+
   const handleReset = () => {
-      setOriginalImage(null);
-      setImageFile(null);
+      releaseBatchItems(items);
+      setItems([]);
+      setActiveId(null);
       setError(null);
+      setNotice(null);
       setAppState('idle');
+      setHistory(createHistory());
+      releaseRenderWorker();
+      sessionIdRef.current = null;
+      setCurrentSessionId(null);
+      refreshRecentSessions();
       imgRef.current = null;
+      setEditorImage(null);
       if(fileInputRef.current) fileInputRef.current.value = '';
       setCrop(undefined);
       setCompletedCrop(null);
-      setRotation(0);
+      setTransform(IDENTITY_TRANSFORM);
       const canvas = previewCanvasRef.current;
-      if (canvas) canvas.getContext('2d')?.clearRect(0,0, canvas.width, canvas.height);
+      // Zero-sized, so the canvas gives its backing memory back.
+      if (canvas) {
+        canvas.width = 0;
+        canvas.height = 0;
+      }
   };
 
-  const updateCropForRatio = (ratio: Ratio, currentRotation: number) => {
+  const updateCropForRatio = (ratio: Ratio, currentTransform: Transform) => {
     if (imgRef.current) {
-      const { width, height } = imgRef.current;
-      const aspect = isRotated(currentRotation) ? 1 / ratio.value : ratio.value;
-      const percentCrop = centerCrop(
-        makeAspectCrop({ unit: '%', width: 90 }, aspect, width, height),
-        width,
-        height,
-      );
+      const frame = getFrameSize(imgRef.current.naturalWidth, imgRef.current.naturalHeight, currentTransform);
+      const percentCrop = getCenteredCrop(ratio.value, frame.width, frame.height);
       setCrop(percentCrop);
-      setCompletedCrop(pixelToPercent(percentCrop, width, height));
+      setCompletedCrop(percentCrop);
+    }
+  };
+
+  // Opens `ratio` in the editor, restoring the crop the open item already
+  // has for it.
+  const editRatio = (ratio: Ratio) => {
+    setSelectedRatio(ratio);
+    const savedCrop = activeItem?.crops[ratio.label];
+    if (savedCrop) {
+      setCrop(savedCrop);
+      setCompletedCrop(savedCrop);
+    } else {
+      updateCropForRatio(ratio, transform);
+    }
+  };
+
+  const takeSnapshot = (itemId = activeIdRef.current): EditSnapshot | null => {
+    const item = itemsRef.current.find(i => i.id === itemId);
+    if (!item) return null;
+    const isActive = item.id === activeIdRef.current;
+    const crops = { ...item.crops };
+    const currentCrop = cropRef.current;
+    // The editor's crop reaches the item through an effect; take it directly.
+    if (isActive && currentCrop?.unit === '%') {
+      crops[selectedRatioRef.current.label] = { ...currentCrop, unit: '%' };
+    }
+    return {
+      itemId: item.id,
+      crops,
+      transform: isActive ? transformRef.current : item.transform,
+      candidates: item.candidates,
+      selectedCandidate: item.selectedCandidate,
+      selectedRatio: selectedRatioRef.current,
+      exportRatios: exportRatiosRef.current,
+    };
+  };
+
+  // Call before an edit. Edits sharing `mergeKey` in quick succession are
+  // undone together.
+  const checkpoint = (mergeKey: string | null = null, itemId?: string) => {
+    const snapshot = takeSnapshot(itemId);
+    if (snapshot) setHistory(current => recordEdit(current, snapshot, mergeKey));
+  };
+
+  const restoreSnapshot = (snapshot: EditSnapshot) => {
+    const item = itemsRef.current.find(i => i.id === snapshot.itemId);
+    if (!item) return;
+    const transformChanged = !isSameTransform(item.transform, snapshot.transform);
+    setItems(current => current.map(i => (i.id === snapshot.itemId ? {
+      ...i,
+      crops: snapshot.crops,
+      transform: snapshot.transform,
+      candidates: snapshot.candidates,
+      selectedCandidate: snapshot.selectedCandidate,
+      ...(transformChanged ? { extensions: {} } : {}),
+    } : i)));
+    if (transformChanged) {
+      loadImage(item.url)
+        .then(image => updateItem(item.id, { thumbnail: createThumbnail(image, snapshot.transform) }))
+        .catch(() => {});
     }
+    setSelectedRatio(snapshot.selectedRatio);
+    setExportRatios(snapshot.exportRatios);
+    setActiveId(snapshot.itemId);
+    setTransform(snapshot.transform);
+    const frame = getFrameSize(item.naturalWidth, item.naturalHeight, snapshot.transform);
+    const restoredCrop = snapshot.crops[snapshot.selectedRatio.label]
+      ?? getCenteredCrop(snapshot.selectedRatio.value, frame.width, frame.height);
+    setCrop(restoredCrop);
+    setCompletedCrop(restoredCrop);
+  };
+
+  const handleUndo = () => {
+    const last = history.past[history.past.length - 1];
+    const current = last && takeSnapshot(last.itemId);
+    const result = current && undoEdit(history, current);
+    if (!result) return;
+    setHistory(result.history);
+    restoreSnapshot(result.snapshot);
+  };
+
+  const handleRedo = () => {
+    const next = history.future[history.future.length - 1];
+    const current = next && takeSnapshot(next.itemId);
+    const result = current && redoEdit(history, current);
+    if (!result) return;
+    setHistory(result.history);
+    restoreSnapshot(result.snapshot);
+  };
+
+  // Edits from the numeric fields, anchors and nudge keys.
+  const handleCropEdit = (next: PercentCrop, mergeKey: string | null) => {
+    checkpoint(mergeKey);
+    setCrop(next);
+    setCompletedCrop(next);
   };
 
-  const handleRatioChange = (ratio: Ratio) => {
+  const handleSaveRecipe = () => {
+    if (!completedCrop) return;
+    const recipe = createRecipe(selectedRatio, completedCrop, transform, outputSize, format, quality);
+    const baseName = activeItem ? getBaseName(activeItem.file.name) : 'crop';
+    const blob = new Blob([JSON.stringify(recipe, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `${baseName}-${getRatioSuffix(selectedRatio.label)}.recipe.json`);
+  };
+
+  // Applies a recipe's ratio, transform and crop to the open image, and its
+  // output settings to the export.
+  const handleApplyRecipe = async (file: File): Promise<string | null> => {
+    if (!activeItem || activeItem.naturalWidth === 0) return 'Open an image first.';
+    let recipe: CropRecipe;
+    try {
+      recipe = parseRecipe(await file.text());
+    } catch {
+      return 'That file is not a crop recipe.';
+    }
+
+    checkpoint();
+    const listed = ratioGroups.flatMap(group => group.ratios).find(r => r.label === recipe.ratio.label);
+    const ratio = listed ?? recipe.ratio;
+    if (!listed) setCustomRatios(current => [...current, ratio]);
+    const frame = getFrameSize(activeItem.naturalWidth, activeItem.naturalHeight, recipe.transform);
+    const recipeCrop = getRecipeCrop(recipe, frame.width, frame.height);
+    // As in updateTransform, other crops only survive if the frame keeps its shape.
+    const keepCrops = recipe.transform.rotation === transform.rotation;
+    updateItem(activeItem.id, {
+      transform: recipe.transform,
+      extensions: {},
+      crops: { ...(keepCrops ? activeItem.crops : {}), [ratio.label]: recipeCrop },
+      ...(imgRef.current ? { thumbnail: createThumbnail(imgRef.current, recipe.transform) } : {}),
+    });
+    setTransform(recipe.transform);
     setSelectedRatio(ratio);
-    updateCropForRatio(ratio, rotation);
+    setExportRatios(current => (current.some(r => r.label === ratio.label) ? current : [...current, ratio]));
+    setCrop(recipeCrop);
+    setCompletedCrop(recipeCrop);
+    setOutputSize(recipe.outputSize);
+    setFormat(recipe.format);
+    setQuality(recipe.quality);
+    return null;
   };
 
-  const handleRotate = () => {
-    const newRotation = (rotation + 90) % 360;
-    setRotation(newRotation);
-    updateCropForRatio(selectedRatio, newRotation);
+  const handleResetCrop = () => {
+    checkpoint();
+    updateCropForRatio(selectedRatio, transform);
+  };
+
+  // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z, except while typing, where the field's
+  // own undo applies.
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      if (isEditableTarget(event.target)) return;
+      event.preventDefault();
+      if (event.shiftKey) handleRedo();
+      else handleUndo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const handleRatioChange = (ratio: Ratio, mergeKey: string | null = null) => {
+    checkpoint(mergeKey);
+    // The dropdown swaps the ratio being edited for another one.
+    setExportRatios(current => {
+      const replaced = current.map(r => (r.label === selectedRatio.label ? ratio : r));
+      // Keep the selector's order; a ratio that was only just added may not
+      // be in the groups yet, so it goes last.
+      const listed = ratioGroups.flatMap(group => group.ratios).filter(r => replaced.some(c => c.label === r.label));
+      const unlisted = replaced.filter((r, index) =>
+        !listed.some(l => l.label === r.label) && replaced.findIndex(c => c.label === r.label) === index);
+      return [...listed, ...unlisted];
+    });
+    editRatio(ratio);
+  };
+
+  // Selects a ratio that may not be in the selector yet (typed in, or the
+  // result of swapping orientation), reusing the listed one if it exists.
+  const applyRatio = (ratio: Ratio) => {
+    const listed = ratioGroups.flatMap(group => group.ratios).find(r => r.label === ratio.label);
+    if (!listed) setCustomRatios(current => [...current, ratio]);
+    handleRatioChange(listed ?? ratio);
+  };
+
+  const handleSwapOrientation = () => applyRatio(swapRatio(selectedRatio));
+
+  // Changing the grid replaces the split being edited rather than adding
+  // every size tried to the Custom group, and undoes in one step.
+  const handleSplitChange = (ratio: Ratio) => {
+    const listed = ratioGroups.flatMap(group => group.ratios).find(r => r.label === ratio.label);
+    setCustomRatios(current => [
+      ...current.filter(r => !r.split || r.label === ratio.label),
+      ...(listed ? [] : [ratio]),
+    ]);
+    handleRatioChange(listed ?? ratio, 'split');
+  };
+
+  const handleSaveRatio = (ratio: Ratio) => {
+    setSavedRatios(current => [...current, ratio]);
+    setCustomRatios(current => current.filter(r => r.label !== ratio.label));
+  };
+
+  const handleRemoveSavedRatio = (ratio: Ratio) => {
+    setSavedRatios(current => current.filter(r => r.label !== ratio.label));
+    // Keep it selectable for this session if it is still in use.
+    if (exportRatios.some(r => r.label === ratio.label)) {
+      setCustomRatios(current => [...current, ratio]);
+    }
+  };
+
+  const handleExportRatiosChange = (ratios: Ratio[]) => {
+    checkpoint();
+    setExportRatios(ratios);
+    if (!ratios.some(r => r.label === selectedRatio.label)) {
+      editRatio(ratios[0]);
+    }
+  };
+
+  // AI extensions are made for one transform and are always dropped. Crops
+  // survive straightening and flips, since the frame keeps its size, but not
+  // a quarter turn.
+  const updateTransform = (next: Transform) => {
+    const keepCrops = next.rotation === transform.rotation;
+    // One entry per slider drag rather than per 0.1° step.
+    const isStraightening = keepCrops && next.flipH === transform.flipH && next.flipV === transform.flipV;
+    checkpoint(isStraightening ? 'straighten' : null);
+    setTransform(next);
+    if (activeId) {
+      updateItem(activeId, {
+        transform: next,
+        extensions: {},
+        ...(keepCrops ? {} : { crops: {} }),
+        ...(imgRef.current ? { thumbnail: createThumbnail(imgRef.current, next) } : {}),
+      });
+    }
+    if (!keepCrops) updateCropForRatio(selectedRatio, next);
+  };
+
+  const handleRotate = () => updateTransform({ ...transform, rotation: (transform.rotation + 90) % 360 });
+
+  // Fits a crop for every ticked ratio around one subject box. The model saw
+  // the untransformed file, so the box is mapped into the frame first.
+  const fitCropsToSubject = (item: BatchItem, box: PercentCrop, ratios: Ratio[]) => {
+    const frameBox = mapBoxToFrame(box, item.naturalWidth, item.naturalHeight, item.transform);
+    const frame = getFrameSize(item.naturalWidth, item.naturalHeight, item.transform);
+    const crops: Record<string, PercentCrop> = {};
+    for (const ratio of ratios) {
+      crops[ratio.label] = fitCropToSubject(frameBox, ratio.value, frame.width, frame.height);
+    }
+    return crops;
+  };
+
+  const applySmartCrops = (itemId: string, crops: Record<string, PercentCrop>, changes: Partial<BatchItem>) => {
+    checkpoint(null, itemId);
+    setItems(current => current.map(i => (
+      i.id === itemId ? { ...i, ...changes, crops: { ...i.crops, ...crops } } : i
+    )));
+    const editedCrop = crops[selectedRatioRef.current.label];
+    if (activeIdRef.current === itemId && editedCrop) {
+      setCrop(editedCrop);
+      setCompletedCrop(editedCrop);
+    }
   };
 
   const handleSmartCrop = async () => {
-    if (!imageFile) return;
-    setIsSmartCropping(true);
+    if (!activeItem || !imageFile) return;
+    // The user may switch to another queued image while the request runs, so
+    // the result is applied to the item it was started for.
+    const item = activeItem;
+    const ratios = exportRatios;
+    updateItem(item.id, { smartCrop: 'running' });
     setError(null);
-    try {
-      const smartCropData = await getSmartCrop(imageFile);
-      if (smartCropData && imgRef.current) {
-        const { width, height } = imgRef.current;
-        const aspect = isRotated(rotation) ? 1/selectedRatio.value : selectedRatio.value;
-
-        // Create a crop from the smart data, maintaining the selected aspect ratio
-        // We use the smart crop center, but enforce the aspect ratio
-        const smartCrop = makeAspectCrop(smartCropData, aspect, width, height);
-        const centeredCrop = centerCrop(smartCrop, width, height);
-
-        setCrop(centeredCrop);
-        setCompletedCrop(pixelToPercent(centeredCrop, width, height));
-      } else {
+    setNotice(null);
+
+    let crops: Record<string, PercentCrop> | null = null;
+    let candidates: SmartCropCandidate[] = [];
+    if (smartCropEngine === 'ai') {
+      const controller = new AbortController();
+      smartCropAbortRef.current.set(item.id, controller);
+      try {
+        // The service gets an upright copy, in case it ignores the EXIF orientation.
+        const upright = await applyOrientation(imageFile, item.metadata);
+        candidates = await getSmartCropCandidates(createSmartCropProvider(aiSettings), upright, smartCropInstruction, controller.signal);
+        if (candidates.length > 0 && item.naturalWidth > 0) {
+          // Start from the top-ranked subject; the others can be picked from
+          // the overlay.
+          crops = fitCropsToSubject(item, candidates[0].box, ratios);
+        } else {
+          setNotice("AI Smart Crop could not find a subject, so the on-device engine was used instead.");
+        }
+      } catch (e) {
+        if (isSmartCropError(e, 'CANCELLED')) {
+          updateItem(item.id, { smartCrop: 'idle' });
+          return;
+        }
+        console.error(e);
+        setNotice(`${getSmartCropFailure(e)}, so the on-device engine was used instead.`);
+      } finally {
+        smartCropAbortRef.current.delete(item.id);
+      }
+    }
+
+    if (!crops) {
+      try {
+        // The local engine ranks windows at each ratio itself, so its crops
+        // are used as they are rather than re-centered.
+        const map = analyzeImage(await loadImage(item.url), item.transform);
+        crops = {};
+        for (const ratio of ratios) {
+          crops[ratio.label] = findBestCrop(map, ratio.value);
+        }
+      } catch (e) {
+        console.error(e);
+        updateItem(item.id, { smartCrop: 'failed' });
         setError("Could not determine a smart crop region.");
+        return;
       }
-    } catch (e: any) {
+    }
+
+    applySmartCrops(item.id, crops, { candidates, selectedCandidate: 0, smartCrop: 'applied' });
+  };
+
+  const handleCancelSmartCrop = () => {
+    if (activeId) smartCropAbortRef.current.get(activeId)?.abort();
+  };
+
+  const handleSelectCandidate = (index: number) => {
+    if (!activeItem || !activeItem.candidates[index]) return;
+    const crops = fitCropsToSubject(activeItem, activeItem.candidates[index].box, exportRatios);
+    applySmartCrops(activeItem.id, crops, { selectedCandidate: index });
+  };
+  
+  const handleExtend = async () => {
+    if (!activeItem || !imgRef.current) return;
+    const item = activeItem;
+    const ratio = selectedRatio;
+    const startTransform = transform;
+    const controller = new AbortController();
+    extendAbortRef.current = controller;
+    setIsExtending(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const extension = await extendImage(imgRef.current, ratio, startTransform, createOutpaintModel(aiSettings, controller.signal));
+      setItems(current => current.map(i => (
+        // Drop the result if the image was transformed while it was generating.
+        i.id === item.id && i.transform === startTransform
+          ? { ...i, extensions: { ...i.extensions, [ratio.label]: extension } }
+          : i
+      )));
+      setMode('fit');
+    } catch (e) {
+      const code = e instanceof Error ? e.message : '';
+      if (code === 'CANCELLED') return;
       console.error(e);
-      if (e.message === "API_KEY_NOT_CONFIGURED") {
-        setError("AI Smart Crop is unavailable: API Key not configured.");
+      if (code === "API_KEY_NOT_CONFIGURED") {
+        setError("Extend with AI is unavailable: add an API key in AI settings.");
+      } else if (code === "NOTHING_TO_EXTEND") {
+        setError("The image already has this aspect ratio, so there is nothing to extend.");
+      } else if (code === "NO_IMAGE_RETURNED") {
+        setError("The AI model did not return an image. Please try again.");
+      } else if (isSmartCropErrorCode(code)) {
+        setError(`${getSmartCropFailure(e)}, so Extend with AI stopped.`);
       } else {
-        setError("AI Smart Crop failed. Please try again.");
+        setError("Extend with AI failed. Please try again.");
       }
     } finally {
-      setIsSmartCropping(false);
+      if (extendAbortRef.current === controller) extendAbortRef.current = null;
+      setIsExtending(false);
     }
   };
-  
-  const getAspectRatio = () => {
-      if(!imgRef.current) return selectedRatio.value;
-      const { width, height } = imgRef.current;
-      return isRotated(rotation) ? selectedRatio.value * (width/height) : selectedRatio.value;
+
+  const handleCancelExtend = () => extendAbortRef.current?.abort();
+
+  const handleDiscardExtension = () => {
+    if (!activeId) return;
+    const label = selectedRatio.label;
+    setItems(current => current.map(item => {
+      if (item.id !== activeId) return item;
+      const { [label]: _, ...extensions } = item.extensions;
+      return { ...item, extensions };
+    }));
   };
 
+  const exportDimensions = getExportDimensions();
+  const nativeDimensions = exportDimensions?.native ?? null;
+  const outputDimensions = exportDimensions?.output ?? null;
+
+  const exportableCount = items.filter(item => item.status !== 'error' && item.status !== 'pending').length;
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-4 bg-slate-900 font-sans">
       <div className="w-full max-w-5xl mx-auto">
@@ -284,22 +1156,64 @@ const App: React.FC = () => {
                 </label>
                 <div className="flex items-center gap-4">
                     <RatioSelector
-                        ratios={RATIOS}
+                        groups={ratioGroups}
                         selectedRatio={selectedRatio}
                         onChange={handleRatioChange}
                     />
+                    <IconButton onClick={handleSwapOrientation} text="Swap" variant="secondary" disabled={isFreeRatio(selectedRatio)}>
+                        <SwapIcon />
+                    </IconButton>
                     <IconButton onClick={handleRotate} text="Rotate">
                         <RotateIcon />
                     </IconButton>
                 </div>
+                <SplitOptions ratio={selectedRatio} onChange={handleSplitChange} disabled={isFreeRatio(selectedRatio)} />
+                <TransformControls transform={transform} onChange={updateTransform} />
+                <div className="flex items-center gap-3">
+                    <IconButton onClick={handleUndo} text="Undo" variant="secondary" disabled={history.past.length === 0}>
+                        <UndoIcon />
+                    </IconButton>
+                    <IconButton onClick={handleRedo} text="Redo" variant="secondary" disabled={history.future.length === 0}>
+                        <RedoIcon />
+                    </IconButton>
+                    <IconButton onClick={handleResetCrop} text="Reset Crop" variant="secondary" disabled={mode === 'fit'}>
+                        <RefreshIcon />
+                    </IconButton>
+                </div>
+                <GuideToggles guides={guides} onChange={setGuides} />
+                <CustomRatioPanel
+                    currentRatio={selectedRatio}
+                    canSaveCurrent={customRatios.some(r => r.label === selectedRatio.label)}
+                    savedRatios={savedRatios}
+                    onApply={applyRatio}
+                    onSave={handleSaveRatio}
+                    onRemove={handleRemoveSavedRatio}
+                />
+                <span className="text-slate-400 text-sm mt-2">Also export as</span>
+                <RatioChecklist
+                    groups={ratioGroups}
+                    checked={exportRatios}
+                    onChange={handleExportRatiosChange}
+                />
+                <div className="mt-2">
+                    <ConversionModeSelector
+                        mode={mode}
+                        fitOptions={fitOptions}
+                        onModeChange={setMode}
+                        onFitOptionsChange={setFitOptions}
+                    />
+                </div>
             </div>
         )}
 
         <main className="bg-slate-800 rounded-2xl shadow-2xl p-6 md:p-8 transition-all duration-500 min-h-400 flex flex-col justify-center">
             {appState === 'idle' && (
-                <UploadArea onFileDrop={handleFileDrop} onFileChange={handleFileChange} fileInputRef={fileInputRef} />
+                <>
+                    <UploadArea onFilesDrop={handleFilesDrop} onFileChange={handleFileChange} onImportUrl={handleImportUrl} fileInputRef={fileInputRef} />
+                    <RecentSessions sessions={recentSessions} onOpen={openSession} onRemove={handleRemoveSession} />
+                </>
             )}
-            {appState === 'loading' && (
+            {(appState === 'loading' || (appState === 'success' && !originalImage)) && (
                 <div className="flex flex-col items-center justify-center text-slate-300">
                     <svg className="animate-spin h-10 w-10 mb-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -318,59 +1232,211 @@ const App: React.FC = () => {
             )}
             {appState === 'success' && originalImage && (
               <div className="animate-fade-in">
+                  {items.length > 1 && (
+                    <div className="mb-6">
+                      <BatchQueue
+                        items={items}
+                        activeId={activeId}
+                        ratio={selectedRatio}
+                        onSelect={selectItem}
+                        onRemove={removeItem}
+                      />
+                    </div>
+                  )}
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
                     <div>
                       <h3 className="text-lg text-center font-semibold text-slate-300 mb-3">Original</h3>
                        <div className="w-full bg-slate-700/50 rounded-lg overflow-hidden shadow-md flex justify-center items-center">
                          <ReactCrop
-                            crop={crop}
-                            onChange={(_, percentCrop) => setCrop(percentCrop)}
-                            onComplete={(c) => setCompletedCrop(c)}
-                            aspect={getAspectRatio()}
+                            // Fit mode keeps the whole image, so there is nothing to crop.
+                            crop={mode === 'fit' ? undefined : crop}
+                            disabled={mode === 'fit'}
+                            onChange={(_, percentCrop) => {
+                              // A drag was recorded when it started; keyboard
+                              // nudges are merged with each other.
+                              if (!isDraggingRef.current) checkpoint('crop-nudge');
+                              setCrop(percentCrop);
+                            }}
+                            onDragStart={() => { isDraggingRef.current = true; checkpoint(); }}
+                            onDragEnd={() => { isDraggingRef.current = false; }}
+                            onComplete={(_, percentCrop) => setCompletedCrop(percentCrop)}
+                            aspect={selectedRatio.value}
+                            renderSelectionAddon={() => editorFrame && crop && (
+                              <GuideOverlay
+                                guides={guides}
+                                width={(crop.width / 100) * editorFrame.width}
+                                height={(crop.height / 100) * editorFrame.height}
+                                tiles={selectedRatio.split}
+                              />
+                            )}
                             minWidth={50}
                             minHeight={50}
                             className="max-h-60vh"
                           >
-                            <img
-                                alt="Crop me"
-                                src={originalImage}
-                                onLoad={onImageLoad}
-                                style={{ maxHeight: '60vh' }}
+                              <canvas
+                                ref={editorCanvasRef}
+                                role="img"
+                                aria-label="Image being cropped"
+                                style={{ display: 'block', maxHeight: '60vh', maxWidth: '100%' }}
                             />
+                            {mode === 'crop' && activeItem && activeItem.candidates.length > 0 && (
+                              <SubjectOverlay
+                                candidates={activeItem.candidates.map(candidate => ({
+                                  ...candidate,
+                                  box: mapBoxToFrame(candidate.box, activeItem.naturalWidth, activeItem.naturalHeight, transform),
+                                }))}
+                                selectedIndex={activeItem.selectedCandidate}
+                                onSelect={handleSelectCandidate}
+                              />
+                            )}
                          </ReactCrop>
+                         {/* Loads the working image; it is only ever shown through the editor canvas. */}
+                         <img
+                            alt=""
+                            src={originalImage}
+                            onLoad={onImageLoad}
+                            onError={onImageError}
+                            className="hidden"
+                         />
                        </div>
+                       {mode === 'crop' && editorFrame && crop?.unit === '%' && (
+                         <div className="mt-4">
+                           <CropInspector
+                             crop={{ ...crop, unit: '%' }}
+                             frameWidth={editorFrame.width}
+                             frameHeight={editorFrame.height}
+                             aspect={selectedRatio.value}
+                             onChange={handleCropEdit}
+                           />
+                         </div>
+                       )}
                     </div>
                     <div>
                       <h3 className="text-lg text-center font-semibold text-slate-300 mb-3">
-                        {selectedRatio.label} Preview ({rotation}&deg;)
+                        {selectedRatio.label} {mode === 'fit' ? 'Fit ' : ''}Preview ({formatAngle(transform)})
                       </h3>
                       <div className="w-full bg-slate-700/50 rounded-lg overflow-hidden shadow-md flex justify-center items-center p-2 aspect-auto">
-                         <canvas
+                        <div className="relative w-full h-full">
+                          <canvas
                             ref={previewCanvasRef}
                             style={{
+                              display: 'block',
                               objectFit: 'contain',
                               width: '100%',
                               height: '100%',
                               maxHeight: 'calc(60vh - 4px)',
                             }}
                           />
+                          {previewSize && <GuideOverlay guides={guides} width={previewSize.width} height={previewSize.height} tiles={selectedRatio.split} />}
+                        </div>
                       </div>
                     </div>
                   </div>
+                  {exportRatios.length > 1 && (
+                    <div className="mb-8">
+                      <h3 className="text-lg text-center font-semibold text-slate-300 mb-3">All Ratios</h3>
+                      <RatioPreviewGrid
+                        image={editorImage}
+                        ratios={exportRatios}
+                        activeRatio={selectedRatio}
+                        transform={transform}
+                        settings={renderSettings}
+                        extensions={activeItem?.extensions}
+                        getCrop={(ratio) => (activeItem && activeItem.naturalWidth > 0 ? getItemCrop(activeItem, ratio) : null)}
+                        onSelect={(ratio) => { checkpoint(); editRatio(ratio); }}
+                      />
+                    </div>
+                  )}
                   <div className="flex flex-col items-center justify-center gap-6">
                       <DownloadOptions 
                         onDownload={handleDownload} 
                         onCopy={handleCopy}
+                        onEstimate={estimateExport}
+                        format={format}
+                        onFormatChange={setFormat}
+                        quality={quality}
+                        onQualityChange={setQuality}
+                        onDownloadAll={items.length > 1 || exportRatios.length > 1 ? handleDownloadAll : undefined}
+                        onDownloadTiles={selectedRatio.split ? handleDownloadTiles : undefined}
+                        tileCount={selectedRatio.split ? selectedRatio.split.columns * selectedRatio.split.rows : 0}
+                        downloadAllCount={exportableCount * exportRatios.length}
+                        outputSize={outputSize}
+                        onOutputSizeChange={setOutputSize}
+                        outputDimensions={outputDimensions}
+                        nativeDimensions={nativeDimensions}
+                        presetLabel={selectedRatio.size ? selectedRatio.label : undefined}
+                        maskOptions={maskOptions}
+                        onMaskOptionsChange={setMaskOptions}
+                        circleAvailable={canUseCircle(selectedRatio.value)}
+                        metadataOptions={metadataOptions}
+                        onMetadataOptionsChange={setMetadataOptions}
+                        hasMetadata={hasMetadata(activeItem?.metadata ?? null)}
+                        printSize={selectedRatio.print}
+                        printOptions={printOptions}
+                        onPrintOptionsChange={setPrintOptions}
+                        disabled={!completedCrop || completedCrop.width === 0}
+                      />
+                      <RecipeControls
+                        onSave={handleSaveRecipe}
+                        onApply={handleApplyRecipe}
                         disabled={!completedCrop || completedCrop.width === 0}
                       />
+                      <CropDataExport
+                        widths={nativeDimensions ? getResponsiveWidths(nativeDimensions.width) : []}
+                        onExportData={handleExportCropData}
+                        onExportImages={handleExportResponsive}
+                        onCopySnippet={handleCopySnippet}
+                        disabled={!completedCrop || completedCrop.width === 0}
+                      />
+                      {error && <p className="text-red-400 text-center" role="alert">{error}</p>}
+                      {notice && <p className="text-slate-400 text-center" role="status">{notice}</p>}
                       <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
-                          <IconButton onClick={handleSmartCrop} text={isSmartCropping ? "Analyzing..." : "Smart Crop"} disabled={isSmartCropping}>
-                              <SparklesIcon />
-                          </IconButton>
+                          {mode === 'fit' && activeExtension ? (
+                              <IconButton onClick={handleDiscardExtension} text="Discard AI Fill" variant="secondary">
+                                  <ExpandIcon />
+                              </IconButton>
+                          ) : isExtending ? (
+                              <IconButton onClick={handleCancelExtend} text="Cancel Extend" variant="secondary">
+                                  <ExpandIcon />
+                              </IconButton>
+                          ) : (
+                              <IconButton onClick={handleExtend} text="Extend with AI">
+                                  <ExpandIcon />
+                              </IconButton>
+                          )}
+                          <div className="flex flex-wrap items-center justify-center gap-3">
+                              {smartCropEngine === 'ai' && (
+                                  <input
+                                      type="text"
+                                      value={smartCropInstruction}
+                                      onChange={(e) => setSmartCropInstruction(e.target.value)}
+                                      onKeyDown={(e) => { if (e.key === 'Enter' && !isSmartCropping && mode !== 'fit') handleSmartCrop(); }}
+                                      placeholder='Optional: "focus on the person on the left"'
+                                      aria-label="Smart crop instruction"
+                                      disabled={isSmartCropping || mode === 'fit'}
+                                      className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 p-2.5 w-72"
+                                  />
+                              )}
+                              {isSmartCropping ? (
+                                  <IconButton onClick={handleCancelSmartCrop} text="Cancel Analysis" variant="secondary">
+                                      <SparklesIcon />
+                                  </IconButton>
+                              ) : (
+                                  <IconButton onClick={handleSmartCrop} text="Smart Crop" disabled={mode === 'fit'}>
+                                      <SparklesIcon />
+                                  </IconButton>
+                              )}
+                              <SmartCropEngineSelector
+                                  engine={smartCropEngine}
+                                  onChange={setSmartCropEngine}
+                                  disabled={isSmartCropping || mode === 'fit'}
+                              />
+                          </div>
                            <IconButton onClick={handleReset} text="Start Over" variant="secondary" >
                               <RefreshIcon />
                           </IconButton>
                       </div>
+                      <AiSettingsPanel settings={aiSettings} onChange={setAiSettings} />
                   </div>
               </div>
             )}
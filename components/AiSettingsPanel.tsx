@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { type AiProviderId, type AiSettings } from '../lib/aiSettings';
+import { GEMINI_IMAGE_MODELS, GEMINI_MODELS } from '../lib/gemini';
+
+interface AiSettingsPanelProps {
+  settings: AiSettings;
+  onChange: (settings: AiSettings) => void;
+}
+
+const fieldClasses = 'bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 p-2';
+
+const AiSettingsPanel: React.FC<AiSettingsPanelProps> = ({ settings, onChange }) => {
+  const [showKey, setShowKey] = useState(false);
+  const update = (changes: Partial<AiSettings>) => onChange({ ...settings, ...changes });
+  const isGemini = settings.provider === 'gemini';
+
+  return (
+    <details className="w-full max-w-md bg-slate-700/50 rounded-lg">
+      <summary className="cursor-pointer select-none px-4 py-2 text-sm font-medium text-slate-300">
+        AI settings
+        {isGemini && !settings.apiKey && <span className="ml-2 text-amber-400">(no API key)</span>}
+      </summary>
+      <div className="flex flex-col gap-3 px-4 pb-4">
+        <div className="flex items-center gap-2">
+          <label htmlFor="ai-provider" className="w-20 text-sm text-slate-400">Provider</label>
+          <select
+            id="ai-provider"
+            value={settings.provider}
+            onChange={(e) => update({ provider: e.target.value as AiProviderId })}
+            className={`${fieldClasses} flex-1`}
+          >
+            <option value="gemini">Google Gemini</option>
+            <option value="mock">Mock (offline)</option>
+          </select>
+        </div>
+        {isGemini ? (
+          <>
+            <div className="flex items-center gap-2">
+              <label htmlFor="ai-model" className="w-20 text-sm text-slate-400">Model</label>
+              <input
+                id="ai-model"
+                type="text"
+                list="ai-model-options"
+                value={settings.model}
+                onChange={(e) => update({ model: e.target.value })}
+                spellCheck={false}
+                className={`${fieldClasses} flex-1`}
+              />
+              <datalist id="ai-model-options">
+                {GEMINI_MODELS.map(model => <option key={model} value={model} />)}
+              </datalist>
+            </div>
+            <div className="flex items-center gap-2">
+              <label htmlFor="ai-image-model" className="w-20 text-sm text-slate-400">Extend</label>
+              <input
+                id="ai-image-model"
+                type="text"
+                list="ai-image-model-options"
+                value={settings.imageModel}
+                onChange={(e) => update({ imageModel: e.target.value })}
+                spellCheck={false}
+                className={`${fieldClasses} flex-1`}
+              />
+              <datalist id="ai-image-model-options">
+                {GEMINI_IMAGE_MODELS.map(model => <option key={model} value={model} />)}
+              </datalist>
+            </div>
+            <div className="flex items-center gap-2">
+              <label htmlFor="ai-key" className="w-20 text-sm text-slate-400">API key</label>
+              <input
+                id="ai-key"
+                type={showKey ? 'text' : 'password'}
+                value={settings.apiKey}
+                onChange={(e) => update({ apiKey: e.target.value })}
+                autoComplete="off"
+                spellCheck={false}
+                className={`${fieldClasses} flex-1 min-w-0`}
+              />
+              <button
+                type="button"
+                onClick={() => setShowKey((current: boolean) => !current)}
+                aria-pressed={showKey}
+                className="px-3 py-2 text-sm font-semibold rounded-lg bg-slate-600 hover:bg-slate-500 text-slate-100"
+              >
+                {showKey ? 'Hide' : 'Show'}
+              </button>
+            </div>
+            <p className="text-xs text-slate-400">
+              The key is kept in this browser only and sent to Google with each request. It also powers Extend with AI.
+            </p>
+          </>
+        ) : (
+          <p className="text-xs text-slate-400">
+            Answers instantly from the image itself, without a network. An instruction of <code>fail:QUOTA_EXCEEDED</code> (or another error code) simulates that failure.
+          </p>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default AiSettingsPanel;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { type BatchItem, getItemCrop } from '../lib/batch';
+import type { Ratio } from '../types';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  activeId: string | null;
+  ratio: Ratio;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const statusLabels: Record<BatchItem['status'], string> = {
+  pending: 'Loading',
+  ready: 'Ready',
+  processing: 'Exporting',
+  done: 'Exported',
+  error: 'Error',
+};
+
+const statusClasses: Record<BatchItem['status'], string> = {
+  pending: 'text-slate-400',
+  ready: 'text-slate-300',
+  processing: 'text-sky-400',
+  done: 'text-emerald-400',
+  error: 'text-red-400',
+};
+
+const BatchQueue: React.FC<BatchQueueProps> = ({ items, activeId, ratio, onSelect, onRemove }) => {
+  return (
+    <ul className="flex gap-3 overflow-x-auto pb-2" aria-label="Image queue">
+      {items.map(item => {
+        const isActive = item.id === activeId;
+        const canSelect = item.status !== 'error' && item.status !== 'pending';
+        const crop = item.naturalWidth > 0 ? getItemCrop(item, ratio) : null;
+
+        return (
+          <li key={item.id} className="flex-shrink-0 w-32">
+            <div
+              className={`relative rounded-lg overflow-hidden border-2 bg-slate-700/50 ${
+                isActive ? 'border-sky-400' : 'border-transparent'
+              }`}
+            >
+              <button
+                onClick={() => onSelect(item.id)}
+                disabled={!canSelect}
+                className="block w-full h-24 disabled:cursor-not-allowed"
+                aria-label={`Edit ${item.file.name}`}
+                aria-current={isActive}
+              >
+                {item.thumbnail ? (
+                  <span className="relative inline-block">
+                    <img src={item.thumbnail} alt="" className="block max-h-24 max-w-full" />
+                    {crop && (
+                      <span
+                        className="absolute border border-sky-400 shadow-[0_0_0_999px_rgba(15,23,42,0.55)]"
+                        style={{
+                          left: `${crop.x}%`,
+                          top: `${crop.y}%`,
+                          width: `${crop.width}%`,
+                          height: `${crop.height}%`,
+                        }}
+                      />
+                    )}
+                  </span>
+                ) : (
+                  <span className="text-xs text-slate-400">{item.status === 'error' ? 'No preview' : 'Loading...'}</span>
+                )}
+              </button>
+              <button
+                onClick={() => onRemove(item.id)}
+                className="absolute top-1 right-1 w-6 h-6 rounded-full bg-slate-900/80 text-slate-200 text-sm leading-none hover:bg-red-500"
+                aria-label={`Remove ${item.file.name}`}
+              >
+                &times;
+              </button>
+              {item.status === 'processing' && (
+                <div className="absolute bottom-0 left-0 h-1 bg-sky-400 transition-all" style={{ width: `${item.progress}%` }} />
+              )}
+            </div>
+            <p className="mt-1 text-xs text-slate-300 truncate" title={item.file.name}>{item.file.name}</p>
+            <p className={`text-xs truncate ${statusClasses[item.status]}`} title={item.error}>
+              {item.error ?? statusLabels[item.status]}
+              {item.smartCrop === 'applied' && ' · Smart'}
+              {item.smartCrop === 'running' && ' · Analyzing'}
+            </p>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default BatchQueue;
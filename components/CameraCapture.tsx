@@ -0,0 +1,87 @@
+import React, { useEffect, useRef, useState } from 'react';
+import IconButton from './IconButton';
+import { CameraIcon } from './Icons';
+import { captureVideoFrame } from '../lib/import';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+const describeCameraError = (err: unknown) => {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'Camera access was denied.';
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'No camera was found.';
+  if (name === 'NotReadableError') return 'The camera is in use by another application.';
+  return 'Could not start the camera.';
+};
+
+// A live camera view with a shutter. The stream is stopped as soon as the
+// view closes, so the camera light goes off with it.
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment', width: { ideal: 3840 }, height: { ideal: 2160 } } })
+      .then(media => {
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) videoRef.current.srcObject = media;
+      })
+      .catch(err => {
+        if (!cancelled) setError(describeCameraError(err));
+      });
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const handleCapture = async () => {
+    if (!videoRef.current) return;
+    try {
+      onCapture(await captureVideoFrame(videoRef.current));
+    } catch {
+      setError('Could not take a picture. Please try again.');
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4" role="dialog" aria-label="Camera">
+      {error ? (
+        <p className="text-red-400" role="alert">{error}</p>
+      ) : (
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          muted
+          onLoadedMetadata={() => setIsReady(true)}
+          className="w-full max-h-60vh rounded-lg bg-black"
+        />
+      )}
+      <div className="flex gap-3">
+        <IconButton onClick={handleCapture} text="Take Photo" disabled={!isReady || !!error}>
+          <CameraIcon />
+        </IconButton>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-6 py-3 font-semibold rounded-lg bg-slate-600 hover:bg-slate-500 text-slate-100 focus:outline-none focus:ring-2 focus:ring-slate-400"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,87 @@
+import React from 'react';
+import type { ConversionMode, FitFill, FitOptions } from '../lib/fit';
+
+interface ConversionModeSelectorProps {
+  mode: ConversionMode;
+  fitOptions: FitOptions;
+  onModeChange: (mode: ConversionMode) => void;
+  onFitOptionsChange: (options: FitOptions) => void;
+}
+
+const FILLS: { value: FitFill; label: string }[] = [
+  { value: 'blur', label: 'Blurred image' },
+  { value: 'edge', label: 'Edge color' },
+  { value: 'color', label: 'Solid color' },
+  { value: 'transparent', label: 'Transparent' },
+];
+
+interface EyeDropperResult {
+  sRGBHex: string;
+}
+
+// The EyeDropper API is only available in Chromium-based browsers.
+const EyeDropperCtor = (window as unknown as { EyeDropper?: new () => { open: () => Promise<EyeDropperResult> } }).EyeDropper;
+
+const ConversionModeSelector: React.FC<ConversionModeSelectorProps> = ({ mode, fitOptions, onModeChange, onFitOptionsChange }) => {
+  const handlePickColor = async () => {
+    if (!EyeDropperCtor) return;
+    try {
+      const { sRGBHex } = await new EyeDropperCtor().open();
+      onFitOptionsChange({ ...fitOptions, fill: 'color', color: sRGBHex });
+    } catch {
+      // The user dismissed the eyedropper.
+    }
+  };
+
+  const modeButtonClasses = (value: ConversionMode) =>
+    `px-4 py-2 text-sm font-medium transition-colors ${
+      mode === value ? 'bg-sky-500 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+    }`;
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3">
+      <div className="inline-flex rounded-lg overflow-hidden border border-slate-600" role="group" aria-label="Conversion mode">
+        <button onClick={() => onModeChange('crop')} aria-pressed={mode === 'crop'} className={modeButtonClasses('crop')}>
+          Crop
+        </button>
+        <button onClick={() => onModeChange('fit')} aria-pressed={mode === 'fit'} className={modeButtonClasses('fit')}>
+          Fit
+        </button>
+      </div>
+      {mode === 'fit' && (
+        <>
+          <label htmlFor="fit-fill-select" className="sr-only">Padding fill</label>
+          <select
+            id="fit-fill-select"
+            value={fitOptions.fill}
+            onChange={(e) => onFitOptionsChange({ ...fitOptions, fill: e.target.value as FitFill })}
+            className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 p-2"
+          >
+            {FILLS.map(fill => (
+              <option key={fill.value} value={fill.value}>{fill.label}</option>
+            ))}
+          </select>
+          {fitOptions.fill === 'color' && (
+            <input
+              type="color"
+              value={fitOptions.color}
+              onChange={(e) => onFitOptionsChange({ ...fitOptions, color: e.target.value })}
+              aria-label="Padding color"
+              className="w-10 h-9 rounded cursor-pointer bg-transparent"
+            />
+          )}
+          {EyeDropperCtor && (
+            <button
+              onClick={handlePickColor}
+              className="px-3 py-2 text-sm rounded-lg bg-slate-700 text-slate-300 hover:bg-slate-600"
+            >
+              Pick from image
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ConversionModeSelector;
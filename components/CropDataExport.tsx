@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+
+interface CropDataExportProps {
+  // The widths the responsive set would have.
+  widths: number[];
+  onExportData: () => void;
+  onExportImages: () => Promise<void>;
+  onCopySnippet: () => Promise<boolean>;
+  disabled: boolean;
+}
+
+const buttonClasses =
+  'px-3 py-1.5 text-sm font-semibold rounded-lg bg-slate-600 hover:bg-slate-500 text-slate-100 focus:outline-none focus:ring-2 focus:ring-sky-400 disabled:opacity-50 disabled:cursor-not-allowed';
+
+// Exports for front ends that crop on their side: the crop data as JSON, and
+// a <picture>/srcset set of widths (see lib/responsive).
+const CropDataExport: React.FC<CropDataExportProps> = ({ widths, onExportData, onExportImages, onCopySnippet, disabled }) => {
+  const [isExporting, setIsExporting] = useState(false);
+  const [copyStatus, setCopyStatus] = useState<'idle' | 'copied'>('idle');
+
+  const handleExportImages = async () => {
+    setIsExporting(true);
+    try {
+      await onExportImages();
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleCopySnippet = async () => {
+    if (await onCopySnippet()) {
+      setCopyStatus('copied');
+      setTimeout(() => setCopyStatus('idle'), 2000);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <div className="flex flex-wrap items-center justify-center gap-2" role="group" aria-label="Crop data export">
+        <span className="text-sm text-slate-400 mr-1">For developers</span>
+        <button type="button" onClick={onExportData} disabled={disabled} className={buttonClasses}>
+          Crop data (JSON)
+        </button>
+        <button type="button" onClick={handleExportImages} disabled={disabled || isExporting || widths.length === 0} className={buttonClasses}>
+          {isExporting ? 'Rendering...' : 'Responsive set (ZIP)'}
+        </button>
+        <button type="button" onClick={handleCopySnippet} disabled={disabled || widths.length === 0} className={buttonClasses}>
+          {copyStatus === 'copied' ? 'Copied!' : 'Copy <picture>'}
+        </button>
+      </div>
+      {!disabled && widths.length > 0 && (
+        <p className="text-xs text-slate-400">Widths: {widths.join(', ')} px</p>
+      )}
+    </div>
+  );
+};
+
+export default CropDataExport;
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import type { PercentCrop, PixelCrop } from 'react-image-crop';
+import { anchorCrop, constrainCrop, percentToPixelCrop, pixelToPercentCrop, type CropAnchor } from '../lib/crop';
+
+interface CropInspectorProps {
+  crop: PercentCrop;
+  // The transformed image the crop is measured against, in pixels.
+  frameWidth: number;
+  frameHeight: number;
+  // The locked aspect, or 0 when the crop is free.
+  aspect: number;
+  // `mergeKey` groups repeated edits (nudges, stepping a field) into one undo step.
+  onChange: (crop: PercentCrop, mergeKey: string | null) => void;
+  disabled?: boolean;
+}
+
+type Field = 'x' | 'y' | 'width' | 'height';
+
+const FIELDS: { key: Field; label: string; name: string }[] = [
+  { key: 'x', label: 'X', name: 'Left edge' },
+  { key: 'y', label: 'Y', name: 'Top edge' },
+  { key: 'width', label: 'W', name: 'Width' },
+  { key: 'height', label: 'H', name: 'Height' },
+];
+
+const ANCHORS: CropAnchor[] = [
+  'top-left', 'top-center', 'top-right',
+  'middle-left', 'middle-center', 'middle-right',
+  'bottom-left', 'bottom-center', 'bottom-right',
+];
+
+const SMALL_STEP = 1;
+const LARGE_STEP = 10;
+const ANNOUNCE_DELAY_MS = 500;
+
+const describeCrop = (crop: PixelCrop) =>
+  `Crop ${Math.round(crop.width)} by ${Math.round(crop.height)} pixels, ` +
+  `${Math.round(crop.x)} from the left and ${Math.round(crop.y)} from the top.`;
+
+const CropInspector: React.FC<CropInspectorProps> = ({ crop, frameWidth, frameHeight, aspect, onChange, disabled = false }) => {
+  // What is being typed into a field, committed on Enter or blur.
+  const [drafts, setDrafts] = useState<Partial<Record<Field, string>>>({});
+  const [announcement, setAnnouncement] = useState('');
+
+  const pixels = percentToPixelCrop(crop, frameWidth, frameHeight);
+
+  // Wait for the crop to settle so a drag or a run of nudges is read out once.
+  const description = describeCrop(pixels);
+  useEffect(() => {
+    const timer = setTimeout(() => setAnnouncement(description), ANNOUNCE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [description]);
+
+  const commit = (next: PixelCrop, keep: 'width' | 'height', mergeKey: string | null) => {
+    const constrained = constrainCrop(next, aspect, frameWidth, frameHeight, keep);
+    onChange(pixelToPercentCrop(constrained, frameWidth, frameHeight), mergeKey);
+  };
+
+  const setField = (field: Field, value: number, mergeKey: string | null) => {
+    if (!Number.isFinite(value)) return;
+    // A new width or height grows the crop from its top-left corner.
+    commit({ ...pixels, [field]: value }, field === 'height' ? 'height' : 'width', mergeKey);
+  };
+
+  const commitDraft = (field: Field) => {
+    const draft = drafts[field];
+    if (draft === undefined) return;
+    setDrafts(({ [field]: _, ...rest }) => rest);
+    if (draft.trim() !== '') setField(field, Number(draft), null);
+  };
+
+  const handleFieldKeyDown = (field: Field, e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      commitDraft(field);
+    } else if (e.key === 'Escape') {
+      setDrafts(({ [field]: _, ...rest }) => rest);
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      const step = (e.shiftKey ? LARGE_STEP : SMALL_STEP) * (e.key === 'ArrowUp' ? 1 : -1);
+      setDrafts(({ [field]: _, ...rest }) => rest);
+      setField(field, Math.round(pixels[field]) + step, `crop-field-${field}`);
+    }
+  };
+
+  // Arrows move the crop; with Alt they resize it from its bottom-right corner.
+  const handleNudgeKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const delta = {
+      ArrowLeft: [-1, 0],
+      ArrowRight: [1, 0],
+      ArrowUp: [0, -1],
+      ArrowDown: [0, 1],
+    }[e.key];
+    if (!delta || disabled) return;
+    e.preventDefault();
+    const step = e.shiftKey ? LARGE_STEP : SMALL_STEP;
+    const [dx, dy] = delta;
+    if (e.altKey) {
+      const keep = dx !== 0 ? 'width' : 'height';
+      commit(
+        { ...pixels, width: pixels.width + dx * step, height: pixels.height + dy * step },
+        keep,
+        'crop-resize',
+      );
+    } else {
+      commit({ ...pixels, x: pixels.x + dx * step, y: pixels.y + dy * step }, 'width', 'crop-nudge');
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {FIELDS.map(({ key, label, name }) => (
+          <label key={key} className="flex items-center gap-1 text-sm text-slate-400">
+            <span aria-hidden="true">{label}</span>
+            <input
+              type="number"
+              inputMode="numeric"
+              min={key === 'width' || key === 'height' ? 1 : 0}
+              max={key === 'x' || key === 'width' ? frameWidth : frameHeight}
+              value={drafts[key] ?? Math.round(pixels[key])}
+              onChange={(e) => setDrafts(current => ({ ...current, [key]: e.target.value }))}
+              onBlur={() => commitDraft(key)}
+              onKeyDown={(e) => handleFieldKeyDown(key, e)}
+              disabled={disabled}
+              aria-label={`${name} in pixels`}
+              className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 p-1.5 w-20"
+            />
+          </label>
+        ))}
+        {aspect > 0 && <span className="text-xs text-slate-500">Aspect locked</span>}
+      </div>
+      <div className="flex items-center gap-4">
+        <div role="group" aria-label="Snap crop to" className="grid grid-cols-3 gap-1">
+          {ANCHORS.map(anchor => (
+            <button
+              key={anchor}
+              type="button"
+              onClick={() => onChange(anchorCrop(crop, anchor), null)}
+              disabled={disabled}
+              title={anchor.replace('-', ' ')}
+              aria-label={`Snap crop to ${anchor === 'middle-center' ? 'center' : anchor.replace('-', ' ')}`}
+              className="w-6 h-6 rounded bg-slate-600 hover:bg-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-400 disabled:opacity-50 flex items-center justify-center"
+            >
+              <span className="block w-1.5 h-1.5 rounded-full bg-slate-200" />
+            </button>
+          ))}
+        </div>
+        <div
+          tabIndex={disabled ? -1 : 0}
+          role="group"
+          aria-label="Crop nudge pad. Arrow keys move the crop, Alt and arrow keys resize it, hold Shift for bigger steps."
+          onKeyDown={handleNudgeKeyDown}
+          className="px-3 py-2 text-xs text-slate-400 rounded-lg border border-dashed border-slate-600 focus:outline-none focus:ring-2 focus:ring-sky-400 focus:text-slate-200"
+        >
+          Focus here, then use arrows to move
+          <br />
+          Alt + arrows resize, Shift for 10 px
+        </div>
+      </div>
+      <p className="sr-only" aria-live="polite">{announcement}</p>
+    </div>
+  );
+};
+
+export default CropInspector;
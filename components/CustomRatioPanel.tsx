@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import type { Ratio } from '../types';
+import { parseRatio } from '../lib/ratios';
+
+interface CustomRatioPanelProps {
+  // The ratio open in the editor; offered for saving when it isn't yet.
+  currentRatio: Ratio;
+  canSaveCurrent: boolean;
+  savedRatios: Ratio[];
+  onApply: (ratio: Ratio) => void;
+  onSave: (ratio: Ratio) => void;
+  onRemove: (ratio: Ratio) => void;
+}
+
+const CustomRatioPanel: React.FC<CustomRatioPanelProps> = ({ currentRatio, canSaveCurrent, savedRatios, onApply, onSave, onRemove }) => {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = () => {
+    const result = parseRatio(input);
+    if (result.error !== undefined) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    setInput('');
+    onApply(result.ratio);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <label htmlFor="custom-ratio" className="text-sm text-slate-400">Custom ratio</label>
+        <input
+          id="custom-ratio"
+          type="text"
+          value={input}
+          onChange={(e) => { setInput(e.target.value); setError(null); }}
+          onKeyDown={(e) => { if (e.key === 'Enter') apply(); }}
+          placeholder="4:5 or 1.91"
+          aria-invalid={error !== null}
+          aria-describedby={error ? 'custom-ratio-error' : undefined}
+          className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 p-2 w-28"
+        />
+        <button
+          type="button"
+          onClick={apply}
+          disabled={input.trim() === ''}
+          className="px-3 py-2 text-sm font-semibold rounded-lg bg-slate-600 hover:bg-slate-500 text-slate-100 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Apply
+        </button>
+        {canSaveCurrent && (
+          <button
+            type="button"
+            onClick={() => onSave(currentRatio)}
+            className="px-3 py-2 text-sm font-semibold rounded-lg bg-slate-600 hover:bg-slate-500 text-slate-100"
+          >
+            Save {currentRatio.label}
+          </button>
+        )}
+      </div>
+      {error && <p id="custom-ratio-error" className="text-sm text-red-400" role="alert">{error}</p>}
+      {savedRatios.length > 0 && (
+        <ul className="flex flex-wrap justify-center gap-2" aria-label="Saved ratios">
+          {savedRatios.map(ratio => (
+            <li key={ratio.label} className="flex items-center rounded-full bg-slate-700 text-sm text-slate-200">
+              <button
+                type="button"
+                onClick={() => onApply(ratio)}
+                className={`pl-3 pr-1 py-1 rounded-l-full hover:text-white ${ratio.label === currentRatio.label ? 'text-sky-400' : ''}`}
+              >
+                {ratio.label}
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(ratio)}
+                aria-label={`Remove ${ratio.label} from saved ratios`}
+                className="pl-1 pr-3 py-1 rounded-r-full text-slate-400 hover:text-red-400"
+              >
+                &times;
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CustomRatioPanel;
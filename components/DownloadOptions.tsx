@@ -1,21 +1,94 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import IconButton from './IconButton';
+import OutputSizeOptions from './OutputSizeOptions';
+import MetadataOptions from './MetadataOptions';
+import MaskOptions from './MaskOptions';
+import PrintOptions from './PrintOptions';
+import type { Dimensions, OutputSize } from '../lib/export';
+import type { MetadataOptions as MetadataSettings } from '../lib/metadata';
+import type { MaskOptions as MaskSettings } from '../lib/mask';
+import type { PrintOptions as PrintSettings } from '../lib/print';
+import { hasNoAlpha } from '../lib/render';
+import type { PrintSize } from '../types';
+import { type SizeEstimate, formatBytes, isLossyFormat } from '../lib/encode';
 import { DownloadIcon, ClipboardIcon } from './Icons';
 
-export type DownloadFormat = 'image/webp' | 'image/jpeg' | 'image/png';
+export type DownloadFormat = 'image/webp' | 'image/jpeg' | 'image/png' | 'image/avif' | 'application/pdf';
 
 interface DownloadOptionsProps {
-  onDownload: (format: DownloadFormat, quality?: number) => void;
+  // `targetBytes` is set when the quality should be lowered as needed to fit
+  // a file size.
+  onDownload: (format: DownloadFormat, quality?: number, targetBytes?: number | null) => void;
   onCopy: (format: DownloadFormat, quality?: number) => Promise<boolean>;
+  // When provided, a second row offers exporting every queued image as a ZIP.
+  onDownloadAll?: (format: DownloadFormat, quality?: number, targetBytes?: number | null) => Promise<void>;
+  // When provided (a split ratio is open), offers its tiles as a ZIP.
+  onDownloadTiles?: (format: DownloadFormat, quality?: number, targetBytes?: number | null) => Promise<void>;
+  tileCount?: number;
+  // Encodes the current output without saving it, to show its file size.
+  onEstimate: (format: DownloadFormat, quality: number, targetBytes: number | null) => Promise<SizeEstimate | null>;
+  format: DownloadFormat;
+  onFormatChange: (format: DownloadFormat) => void;
+  quality: number;
+  onQualityChange: (quality: number) => void;
+  downloadAllCount?: number;
+  outputSize: OutputSize;
+  onOutputSizeChange: (size: OutputSize) => void;
+  outputDimensions: Dimensions | null;
+  nativeDimensions: Dimensions | null;
+  presetLabel?: string;
+  maskOptions: MaskSettings;
+  onMaskOptionsChange: (options: MaskSettings) => void;
+  circleAvailable: boolean;
+  metadataOptions: MetadataSettings;
+  onMetadataOptionsChange: (options: MetadataSettings) => void;
+  // Whether the open image carries any metadata worth offering to keep.
+  hasMetadata: boolean;
+  // The selected ratio's paper size, when it's a print preset.
+  printSize?: PrintSize;
+  printOptions: PrintSettings;
+  onPrintOptionsChange: (options: PrintSettings) => void;
   disabled: boolean;
 }
 
-const DownloadOptions: React.FC<DownloadOptionsProps> = ({ onDownload, onCopy, disabled }) => {
-    const [format, setFormat] = useState<DownloadFormat>('image/webp');
-    const [quality, setQuality] = useState(0.9);
+const ESTIMATE_DELAY_MS = 400;
+
+const DownloadOptions: React.FC<DownloadOptionsProps> = ({ onDownload, onCopy, onDownloadAll, onDownloadTiles, tileCount = 0, onEstimate, format, onFormatChange, quality, onQualityChange, downloadAllCount = 0, outputSize, onOutputSizeChange, outputDimensions, nativeDimensions, presetLabel, maskOptions, onMaskOptionsChange, circleAvailable, metadataOptions, onMetadataOptionsChange, hasMetadata, printSize, printOptions, onPrintOptionsChange, disabled }) => {
     const [copyStatus, setCopyStatus] = useState<'idle' | 'copied'>('idle');
+    const [isExportingAll, setIsExportingAll] = useState(false);
+    const [isExportingTiles, setIsExportingTiles] = useState(false);
+    const [useTargetSize, setUseTargetSize] = useState(false);
+    const [targetKB, setTargetKB] = useState(200);
+    const [estimate, setEstimate] = useState<SizeEstimate | null>(null);
+    const [isEstimating, setIsEstimating] = useState(false);
+
+    const showQualitySlider = isLossyFormat(format);
+    const isPdf = format === 'application/pdf';
+    const targetBytes = showQualitySlider && useTargetSize && targetKB > 0 ? targetKB * 1024 : null;
 
-    const showQualitySlider = format === 'image/jpeg' || format === 'image/webp';
+    // Re-encode after the settings (or, through a new onEstimate, the
+    // render) settle, and drop results that arrive after a newer request.
+    useEffect(() => {
+        if (disabled) {
+            setEstimate(null);
+            return;
+        }
+        let cancelled = false;
+        setIsEstimating(true);
+        const timer = setTimeout(() => {
+            onEstimate(format, quality, targetBytes)
+                .catch(() => null)
+                .then(result => {
+                    if (cancelled) return;
+                    setEstimate(result);
+                    setIsEstimating(false);
+                });
+        }, ESTIMATE_DELAY_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [format, quality, targetBytes, onEstimate, disabled]);
 
     const handleCopyClick = async () => {
         const success = await onCopy(format, quality);
@@ -25,6 +98,26 @@ const DownloadOptions: React.FC<DownloadOptionsProps> = ({ onDownload, onCopy, d
         }
     };
 
+    const handleDownloadAllClick = async () => {
+        if (!onDownloadAll) return;
+        setIsExportingAll(true);
+        try {
+            await onDownloadAll(format, quality, targetBytes);
+        } finally {
+            setIsExportingAll(false);
+        }
+    };
+
+    const handleDownloadTilesClick = async () => {
+        if (!onDownloadTiles) return;
+        setIsExportingTiles(true);
+        try {
+            await onDownloadTiles(format, quality, targetBytes);
+        } finally {
+            setIsExportingTiles(false);
+        }
+    };
+
     return (
         <div className="w-full max-w-md bg-slate-700/50 p-4 rounded-lg flex flex-col gap-4">
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -33,18 +126,20 @@ const DownloadOptions: React.FC<DownloadOptionsProps> = ({ onDownload, onCopy, d
                     <select
                         id="format-select"
                         value={format}
-                        onChange={(e) => setFormat(e.target.value as DownloadFormat)}
+                        onChange={(e) => onFormatChange(e.target.value as DownloadFormat)}
                         disabled={disabled}
                         className="bg-slate-600 border border-slate-500 text-white text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 block w-full p-2.5"
                     >
                         <option value="image/webp">WEBP</option>
                         <option value="image/jpeg">JPEG</option>
                         <option value="image/png">PNG</option>
+                        <option value="image/avif">AVIF</option>
+                        <option value="application/pdf">PDF (print)</option>
                     </select>
                 </div>
                 {showQualitySlider && (
                      <div className="w-full">
-                        <label htmlFor="quality-slider" className="block mb-1 text-sm font-medium text-slate-300">Quality: {Math.round(quality * 100)}%</label>
+                        <label htmlFor="quality-slider" className="block mb-1 text-sm font-medium text-slate-300">{targetBytes !== null ? 'Max quality' : 'Quality'}: {Math.round(quality * 100)}%</label>
                          <input
                             id="quality-slider"
                             type="range"
@@ -52,21 +147,111 @@ const DownloadOptions: React.FC<DownloadOptionsProps> = ({ onDownload, onCopy, d
                             max="1"
                             step="0.05"
                             value={quality}
-                            onChange={(e) => setQuality(parseFloat(e.target.value))}
+                            onChange={(e) => onQualityChange(parseFloat(e.target.value))}
                             disabled={disabled}
                             className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer"
                         />
                     </div>
                 )}
             </div>
+            {showQualitySlider && (
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-2 text-sm text-slate-300">
+                        <input
+                            type="checkbox"
+                            checked={useTargetSize}
+                            onChange={(e) => setUseTargetSize(e.target.checked)}
+                            disabled={disabled}
+                            className="accent-sky-500"
+                        />
+                        Target file size
+                    </label>
+                    {useTargetSize && (
+                        <label className="flex items-center gap-2 text-sm text-slate-300">
+                            <input
+                                type="number"
+                                min="1"
+                                value={targetKB || ''}
+                                onChange={(e) => setTargetKB(Math.max(0, Math.round(Number(e.target.value) || 0)))}
+                                disabled={disabled}
+                                aria-label="Target file size in kilobytes"
+                                className="bg-slate-600 border border-slate-500 text-white text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 p-1.5 w-24"
+                            />
+                            KB or less
+                        </label>
+                    )}
+                </div>
+            )}
+            <OutputSizeOptions
+                size={outputSize}
+                onChange={onOutputSizeChange}
+                dimensions={outputDimensions}
+                nativeDimensions={nativeDimensions}
+                presetLabel={presetLabel}
+                disabled={disabled}
+            />
+            {(printSize || isPdf) && (
+                <PrintOptions
+                    size={printSize}
+                    pixelWidth={outputDimensions?.width ?? null}
+                    options={printOptions}
+                    onChange={onPrintOptionsChange}
+                    isPdf={isPdf}
+                    disabled={disabled}
+                />
+            )}
+            <MaskOptions
+                options={maskOptions}
+                onChange={onMaskOptionsChange}
+                circleAvailable={circleAvailable}
+                needsBackground={hasNoAlpha(format)}
+                disabled={disabled}
+            />
+            {hasMetadata && (
+                <MetadataOptions
+                    options={metadataOptions}
+                    onChange={onMetadataOptionsChange}
+                    disabled={disabled}
+                />
+            )}
+            {!disabled && (
+                <p className="text-sm text-slate-400" aria-live="polite">
+                    {estimate
+                        ? <>File size: {estimate.approximate && 'about '}{formatBytes(estimate.bytes)}{targetBytes !== null && ` at ${Math.round(estimate.quality * 100)}% quality`}{outputDimensions && ` · ${outputDimensions.width} × ${outputDimensions.height} px`}{isEstimating && ' (updating...)'}</>
+                        : isEstimating ? 'Estimating file size...' : null}
+                </p>
+            )}
+            {estimate && !estimate.withinTarget && targetBytes !== null && (
+                <p className="text-sm text-amber-400" role="alert">
+                    Even at the lowest quality the file is {estimate.approximate && 'about '}{formatBytes(estimate.bytes)}, over the {formatBytes(targetBytes)} target. Try a smaller output size or another format.
+                </p>
+            )}
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                 <IconButton onClick={() => onDownload(format, quality)} text="Download Image" disabled={disabled}>
+                 <IconButton onClick={() => onDownload(format, quality, targetBytes)} text="Download Image" disabled={disabled}>
                     <DownloadIcon/>
                 </IconButton>
-                <IconButton onClick={handleCopyClick} text={copyStatus === 'copied' ? 'Copied!' : 'Copy Image'} disabled={disabled} variant="secondary">
+                <IconButton onClick={handleCopyClick} text={copyStatus === 'copied' ? 'Copied!' : 'Copy Image'} disabled={disabled || isPdf} variant="secondary">
                     <ClipboardIcon />
                 </IconButton>
             </div>
+            {onDownloadTiles && (
+                <IconButton
+                    onClick={handleDownloadTilesClick}
+                    text={isExportingTiles ? 'Exporting...' : `Download ${tileCount} Tiles (ZIP)`}
+                    disabled={disabled || isExportingTiles}
+                >
+                    <DownloadIcon/>
+                </IconButton>
+            )}
+            {onDownloadAll && (
+                <IconButton
+                    onClick={handleDownloadAllClick}
+                    text={isExportingAll ? 'Exporting...' : `Download All ${downloadAllCount} (ZIP)`}
+                    disabled={isExportingAll || downloadAllCount === 0}
+                >
+                    <DownloadIcon/>
+                </IconButton>
+            )}
         </div>
     );
 };
@@ -0,0 +1,119 @@
+import React from 'react';
+import {
+  GOLDEN_SECTION,
+  type Guide,
+  STORIES_BOTTOM_BAR,
+  STORIES_TOP_BAR,
+  YOUTUBE_TIMESTAMP,
+} from '../lib/guides';
+
+interface GuideOverlayProps {
+  guides: Guide[];
+  // The size of the area being framed, in any unit; only the aspect matters.
+  // The guides are letterboxed to it the same way `object-fit: contain` is.
+  width: number;
+  height: number;
+  // The tile grid of a split ratio, drawn over the guides.
+  tiles?: { columns: number; rows: number };
+}
+
+const LINE = {
+  stroke: 'rgba(255, 255, 255, 0.75)',
+  strokeWidth: 1,
+  vectorEffect: 'non-scaling-stroke',
+} as const;
+
+const TILE = {
+  stroke: 'rgba(56, 189, 248, 0.95)',
+  strokeWidth: 2,
+  vectorEffect: 'non-scaling-stroke',
+} as const;
+
+const ZONE = {
+  fill: 'rgba(248, 113, 113, 0.25)',
+  stroke: 'rgba(248, 113, 113, 0.9)',
+  strokeWidth: 1,
+  strokeDasharray: '4 3',
+  vectorEffect: 'non-scaling-stroke',
+} as const;
+
+// Draws the enabled guides over whatever it is absolutely positioned on. It
+// never takes pointer events, so crops can still be dragged through it.
+const GuideOverlay: React.FC<GuideOverlayProps> = ({ guides, width, height, tiles }) => {
+  const hasTiles = tiles !== undefined && tiles.columns * tiles.rows > 1;
+  if ((guides.length === 0 && !hasTiles) || width <= 0 || height <= 0) return null;
+  const has = (guide: Guide) => guides.includes(guide);
+
+  const verticals = (fractions: number[]) =>
+    fractions.map(f => <line key={`v${f}`} x1={width * f} y1={0} x2={width * f} y2={height} {...LINE} />);
+  const horizontals = (fractions: number[]) =>
+    fractions.map(f => <line key={`h${f}`} x1={0} y1={height * f} x2={width} y2={height * f} {...LINE} />);
+
+  const cross = Math.min(width, height) * 0.05;
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+      aria-hidden="true"
+    >
+      {has('stories') && (
+        <>
+          <rect x={0} y={0} width={width} height={height * STORIES_TOP_BAR} {...ZONE} />
+          <rect x={0} y={height * (1 - STORIES_BOTTOM_BAR)} width={width} height={height * STORIES_BOTTOM_BAR} {...ZONE} />
+        </>
+      )}
+      {has('youtube') && (
+        <rect
+          x={width * (1 - YOUTUBE_TIMESTAMP.width)}
+          y={height * (1 - YOUTUBE_TIMESTAMP.height)}
+          width={width * YOUTUBE_TIMESTAMP.width}
+          height={height * YOUTUBE_TIMESTAMP.height}
+          {...ZONE}
+        />
+      )}
+      {has('avatar') && (
+        <circle cx={width / 2} cy={height / 2} r={Math.min(width, height) / 2} {...ZONE} fill="none" />
+      )}
+      {has('thirds') && (
+        <g>
+          {verticals([1 / 3, 2 / 3])}
+          {horizontals([1 / 3, 2 / 3])}
+        </g>
+      )}
+      {has('golden') && (
+        <g strokeDasharray="6 4">
+          {verticals([1 - GOLDEN_SECTION, GOLDEN_SECTION])}
+          {horizontals([1 - GOLDEN_SECTION, GOLDEN_SECTION])}
+        </g>
+      )}
+      {has('diagonals') && (
+        <g>
+          <line x1={0} y1={0} x2={width} y2={height} {...LINE} />
+          <line x1={width} y1={0} x2={0} y2={height} {...LINE} />
+        </g>
+      )}
+      {has('center') && (
+        <g>
+          <line x1={width / 2 - cross} y1={height / 2} x2={width / 2 + cross} y2={height / 2} {...LINE} />
+          <line x1={width / 2} y1={height / 2 - cross} x2={width / 2} y2={height / 2 + cross} {...LINE} />
+        </g>
+      )}
+      {hasTiles && (
+        <g>
+          {Array.from({ length: tiles.columns - 1 }, (_, i) => {
+            const x = (width * (i + 1)) / tiles.columns;
+            return <line key={`tv${i}`} x1={x} y1={0} x2={x} y2={height} {...TILE} />;
+          })}
+          {Array.from({ length: tiles.rows - 1 }, (_, i) => {
+            const y = (height * (i + 1)) / tiles.rows;
+            return <line key={`th${i}`} x1={0} y1={y} x2={width} y2={y} {...TILE} />;
+          })}
+        </g>
+      )}
+    </svg>
+  );
+};
+
+export default GuideOverlay;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { COMPOSITION_GUIDES, type Guide, SAFE_ZONES } from '../lib/guides';
+
+interface GuideTogglesProps {
+  guides: Guide[];
+  onChange: (guides: Guide[]) => void;
+}
+
+const toggleClasses = (active: boolean) =>
+  `px-2.5 py-1 text-xs font-semibold rounded-full focus:outline-none focus:ring-2 focus:ring-sky-400 ${
+    active ? 'bg-sky-500 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'
+  }`;
+
+const GuideToggles: React.FC<GuideTogglesProps> = ({ guides, onChange }) => {
+  const toggle = (guide: Guide) =>
+    onChange(guides.includes(guide) ? guides.filter(g => g !== guide) : [...guides, guide]);
+
+  const renderGroup = (label: string, options: { value: Guide; label: string }[]) => (
+    <div className="flex flex-wrap items-center justify-center gap-1.5" role="group" aria-label={label}>
+      <span className="text-sm text-slate-400 mr-1">{label}</span>
+      {options.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => toggle(option.value)}
+          aria-pressed={guides.includes(option.value)}
+          className={toggleClasses(guides.includes(option.value))}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2">
+      {renderGroup('Guides', COMPOSITION_GUIDES)}
+      {renderGroup('Safe zones', SAFE_ZONES)}
+    </div>
+  );
+};
+
+export default GuideToggles;
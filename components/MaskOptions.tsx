@@ -0,0 +1,77 @@
+import React from 'react';
+import { MAX_CORNER_RADIUS, type MaskOptions as Options, type MaskShape } from '../lib/mask';
+
+interface MaskOptionsProps {
+  options: Options;
+  onChange: (options: Options) => void;
+  // Circle is only offered while the output is square.
+  circleAvailable: boolean;
+  // Whether the chosen format lacks transparency, so the background matters.
+  needsBackground: boolean;
+  disabled?: boolean;
+}
+
+const SHAPES: { value: MaskShape; label: string }[] = [
+  { value: 'none', label: 'Rectangle' },
+  { value: 'rounded', label: 'Rounded corners' },
+  { value: 'circle', label: 'Circle' },
+];
+
+const MaskOptions: React.FC<MaskOptionsProps> = ({ options, onChange, circleAvailable, needsBackground, disabled = false }) => {
+  const shape = options.shape === 'circle' && !circleAvailable ? 'none' : options.shape;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div>
+        <label htmlFor="mask-shape" className="block mb-1 text-sm font-medium text-slate-300">Shape</label>
+        <select
+          id="mask-shape"
+          value={shape}
+          onChange={(e) => onChange({ ...options, shape: e.target.value as MaskShape })}
+          disabled={disabled}
+          className="bg-slate-600 border border-slate-500 text-white text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 block w-full p-2.5"
+        >
+          {SHAPES.map(option => (
+            <option
+              key={option.value}
+              value={option.value}
+              disabled={option.value === 'circle' && !circleAvailable}
+            >
+              {option.value === 'circle' && !circleAvailable ? `${option.label} (1:1 only)` : option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {shape === 'rounded' && (
+        <div>
+          <label htmlFor="mask-radius" className="block mb-1 text-sm font-medium text-slate-300">Corner radius: {options.radius}%</label>
+          <input
+            id="mask-radius"
+            type="range"
+            min="1"
+            max={MAX_CORNER_RADIUS}
+            step="1"
+            value={options.radius}
+            onChange={(e) => onChange({ ...options, radius: parseInt(e.target.value, 10) })}
+            disabled={disabled}
+            className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      )}
+      {shape !== 'none' && needsBackground && (
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input
+            type="color"
+            value={options.background}
+            onChange={(e) => onChange({ ...options, background: e.target.value })}
+            disabled={disabled}
+            className="h-8 w-10 bg-transparent border border-slate-500 rounded cursor-pointer"
+          />
+          Background (JPEG has no transparency)
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default MaskOptions;
@@ -0,0 +1,64 @@
+import React from 'react';
+import type { MetadataMode, MetadataOptions as Options } from '../lib/metadata';
+
+interface MetadataOptionsProps {
+  options: Options;
+  onChange: (options: Options) => void;
+  disabled?: boolean;
+}
+
+const MODES: { value: MetadataMode; label: string }[] = [
+  { value: 'keep', label: 'Keep all' },
+  { value: 'select', label: 'Keep selected' },
+  { value: 'strip', label: 'Strip all' },
+];
+
+const FIELDS: { key: 'copyright' | 'captureDate' | 'colorProfile'; label: string }[] = [
+  { key: 'copyright', label: 'Copyright & artist' },
+  { key: 'captureDate', label: 'Capture date' },
+  { key: 'colorProfile', label: 'Color profile (ICC)' },
+];
+
+const MetadataOptions: React.FC<MetadataOptionsProps> = ({ options, onChange, disabled = false }) => {
+  const checkbox = (checked: boolean, label: string, change: (checked: boolean) => void) => (
+    <label key={label} className="flex items-center gap-2 text-sm text-slate-300">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => change(e.target.checked)}
+        disabled={disabled}
+        className="accent-sky-500"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div>
+        <label htmlFor="metadata-mode" className="block mb-1 text-sm font-medium text-slate-300">Metadata</label>
+        <select
+          id="metadata-mode"
+          value={options.mode}
+          onChange={(e) => onChange({ ...options, mode: e.target.value as MetadataMode })}
+          disabled={disabled}
+          className="bg-slate-600 border border-slate-500 text-white text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 block w-full p-2.5"
+        >
+          {MODES.map(mode => (
+            <option key={mode.value} value={mode.value}>{mode.label}</option>
+          ))}
+        </select>
+      </div>
+      {options.mode !== 'strip' && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {options.mode === 'select' && FIELDS.map(field =>
+            checkbox(options[field.key], field.label, (checked) => onChange({ ...options, [field.key]: checked })),
+          )}
+          {checkbox(options.location, 'Location (GPS)', (location) => onChange({ ...options, location }))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MetadataOptions;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { type Dimensions, type OutputSize, type OutputSizeMode, isUpscaling } from '../lib/export';
+
+interface OutputSizeOptionsProps {
+  size: OutputSize;
+  onChange: (size: OutputSize) => void;
+  // The resulting pixel size for the current crop, if known, and the size
+  // the crop has before resampling.
+  dimensions: Dimensions | null;
+  nativeDimensions: Dimensions | null;
+  // Set when a platform preset dictates the size.
+  presetLabel?: string;
+  disabled?: boolean;
+}
+
+const MODES: { value: OutputSizeMode; label: string }[] = [
+  { value: 'native', label: 'Original pixels' },
+  { value: 'exact', label: 'Exact size' },
+  { value: 'longEdge', label: 'Max long edge' },
+  { value: 'scale', label: 'Scale %' },
+];
+
+const inputClasses = "bg-slate-600 border border-slate-500 text-white text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 block w-full p-2.5";
+
+const OutputSizeOptions: React.FC<OutputSizeOptionsProps> = ({ size, onChange, dimensions, nativeDimensions, presetLabel, disabled = false }) => {
+  const parse = (value: string) => Math.max(0, Math.round(Number(value) || 0));
+  const upscaling = dimensions && nativeDimensions && isUpscaling(nativeDimensions, dimensions);
+
+  return (
+    <div className="flex flex-col gap-2">
+      {presetLabel ? (
+        <p className="text-sm text-slate-300">Output size is set by the <span className="font-semibold">{presetLabel}</span> preset.</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="output-size-mode" className="block mb-1 text-sm font-medium text-slate-300">Output Size</label>
+            <select
+              id="output-size-mode"
+              value={size.mode}
+              onChange={(e) => onChange({ ...size, mode: e.target.value as OutputSizeMode })}
+              disabled={disabled}
+              className={inputClasses}
+            >
+              {MODES.map(mode => (
+                <option key={mode.value} value={mode.value}>{mode.label}</option>
+              ))}
+            </select>
+          </div>
+          {size.mode === 'exact' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label htmlFor="output-width" className="block mb-1 text-sm font-medium text-slate-300">Width</label>
+                <input
+                  id="output-width"
+                  type="number"
+                  min="0"
+                  placeholder="auto"
+                  value={size.width || ''}
+                  onChange={(e) => onChange({ ...size, width: parse(e.target.value) })}
+                  disabled={disabled}
+                  className={inputClasses}
+                />
+              </div>
+              <div>
+                <label htmlFor="output-height" className="block mb-1 text-sm font-medium text-slate-300">Height</label>
+                <input
+                  id="output-height"
+                  type="number"
+                  min="0"
+                  placeholder="auto"
+                  value={size.height || ''}
+                  onChange={(e) => onChange({ ...size, height: parse(e.target.value) })}
+                  disabled={disabled}
+                  className={inputClasses}
+                />
+              </div>
+            </div>
+          )}
+          {size.mode === 'longEdge' && (
+            <div>
+              <label htmlFor="output-long-edge" className="block mb-1 text-sm font-medium text-slate-300">Long edge (px)</label>
+              <input
+                id="output-long-edge"
+                type="number"
+                min="1"
+                value={size.longEdge || ''}
+                onChange={(e) => onChange({ ...size, longEdge: parse(e.target.value) })}
+                disabled={disabled}
+                className={inputClasses}
+              />
+            </div>
+          )}
+          {size.mode === 'scale' && (
+            <div>
+              <label htmlFor="output-scale" className="block mb-1 text-sm font-medium text-slate-300">Scale: {size.scale}%</label>
+              <input
+                id="output-scale"
+                type="range"
+                min="5"
+                max="200"
+                step="5"
+                value={size.scale}
+                onChange={(e) => onChange({ ...size, scale: parse(e.target.value) })}
+                disabled={disabled}
+                className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer"
+              />
+            </div>
+          )}
+        </div>
+      )}
+      {dimensions && (
+        <p className="text-sm text-slate-400">
+          Output: {dimensions.width} &times; {dimensions.height} px
+        </p>
+      )}
+      {upscaling && nativeDimensions && (
+        <p className="text-sm text-amber-400" role="alert">
+          The crop is only {nativeDimensions.width} &times; {nativeDimensions.height} px, so it will be upscaled and may look soft.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default OutputSizeOptions;
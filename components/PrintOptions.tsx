@@ -0,0 +1,92 @@
+import React from 'react';
+import type { PrintSize } from '../types';
+import {
+  DEFAULT_BLEED_MM,
+  DEFAULT_PRINT_DPI,
+  MIN_PRINT_DPI,
+  type PrintOptions as Options,
+  formatPrintSize,
+  getEffectiveDpi,
+  isPortrait,
+} from '../lib/print';
+
+interface PrintOptionsProps {
+  // The paper size of a print preset, if one is selected.
+  size?: PrintSize;
+  // The output's width in pixels, for the effective DPI.
+  pixelWidth: number | null;
+  options: Options;
+  onChange: (options: Options) => void;
+  // Bleed and crop marks only exist in a PDF.
+  isPdf: boolean;
+  disabled?: boolean;
+}
+
+const PrintOptions: React.FC<PrintOptionsProps> = ({ size, pixelWidth, options, onChange, isPdf, disabled = false }) => {
+  const dpi = size && pixelWidth ? Math.round(getEffectiveDpi(pixelWidth, size)) : null;
+
+  return (
+    <div className="flex flex-col gap-2">
+      {size && (
+        <p className="text-sm text-slate-300">
+          Print: {formatPrintSize(size)} {isPortrait(size) ? 'portrait' : 'landscape'}
+          {dpi !== null && <> · <span className={dpi < MIN_PRINT_DPI ? 'text-amber-400' : undefined}>{dpi} DPI</span></>}
+        </p>
+      )}
+      {dpi !== null && dpi < MIN_PRINT_DPI && (
+        <p className="text-sm text-amber-400" role="alert">
+          Below {MIN_PRINT_DPI} DPI the print may look soft. Crop less tightly, or choose a smaller size.
+        </p>
+      )}
+      {isPdf && (
+        <>
+          {!size && (
+            <p className="text-xs text-slate-400">
+              The page is sized at {DEFAULT_PRINT_DPI} DPI. Choose a print preset for an exact paper size.
+            </p>
+          )}
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={options.bleed > 0}
+                onChange={(e) => onChange({ ...options, bleed: e.target.checked ? DEFAULT_BLEED_MM : 0 })}
+                disabled={disabled}
+                className="accent-sky-500"
+              />
+              Bleed
+            </label>
+            {options.bleed > 0 && (
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <input
+                  type="number"
+                  min="0.5"
+                  max="10"
+                  step="0.5"
+                  value={options.bleed}
+                  onChange={(e) => onChange({ ...options, bleed: Math.min(10, Math.max(0, Number(e.target.value) || 0)) })}
+                  disabled={disabled}
+                  aria-label="Bleed in millimetres"
+                  className="bg-slate-600 border border-slate-500 text-white text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 p-1.5 w-20"
+                />
+                mm
+              </label>
+            )}
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={options.cropMarks}
+                onChange={(e) => onChange({ ...options, cropMarks: e.target.checked })}
+                disabled={disabled}
+                className="accent-sky-500"
+              />
+              Crop marks
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PrintOptions;
@@ -0,0 +1,68 @@
+import React from 'react';
+import type { Ratio, RatioGroup } from '../types';
+
+interface RatioChecklistProps {
+  groups: RatioGroup[];
+  checked: Ratio[];
+  onChange: (ratios: Ratio[]) => void;
+  disabled?: boolean;
+}
+
+const RatioChecklist: React.FC<RatioChecklistProps> = ({ groups, checked, onChange, disabled = false }) => {
+  const ratios = groups.flatMap(group => group.ratios);
+  const isChecked = (ratio: Ratio) => checked.some(r => r.label === ratio.label);
+
+  const handleToggle = (ratio: Ratio) => {
+    if (isChecked(ratio)) {
+      // At least one ratio always stays selected for export.
+      if (checked.length > 1) onChange(checked.filter(r => r.label !== ratio.label));
+    } else {
+      // Keep the order of the ratio list so exports come out predictably.
+      onChange(ratios.filter(r => isChecked(r) || r.label === ratio.label));
+    }
+  };
+
+  const renderOption = (ratio: Ratio) => (
+    <label
+      key={ratio.label}
+      className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-sm cursor-pointer transition-colors ${
+        isChecked(ratio) ? 'border-sky-400 bg-sky-500/20 text-white' : 'border-slate-600 text-slate-300 hover:border-slate-500'
+      }`}
+    >
+      <input
+        type="checkbox"
+        checked={isChecked(ratio)}
+        onChange={() => handleToggle(ratio)}
+        className="accent-sky-500"
+      />
+      {ratio.label}
+    </label>
+  );
+
+  const [first, ...rest] = groups;
+
+  return (
+    <fieldset className="flex flex-col items-center gap-2" disabled={disabled}>
+      <legend className="sr-only">Ratios to export</legend>
+      <div className="flex flex-wrap justify-center gap-2">
+        {first?.ratios.map(renderOption)}
+      </div>
+      {rest.length > 0 && (
+        // Platform presets are many, so they stay folded away until needed.
+        <details className="w-full" open={rest.some(group => group.ratios.some(isChecked))}>
+          <summary className="text-sm text-slate-400 text-center cursor-pointer select-none">Platform presets</summary>
+          <div className="flex flex-col gap-3 mt-3">
+            {rest.map(group => (
+              <div key={group.name} className="flex flex-wrap items-center justify-center gap-2">
+                <span className="text-xs uppercase tracking-wide text-slate-500 w-24 text-right">{group.name}</span>
+                {group.ratios.map(renderOption)}
+              </div>
+            ))}
+          </div>
+        </details>
+      )}
+    </fieldset>
+  );
+};
+
+export default RatioChecklist;
@@ -0,0 +1,85 @@
+import React, { useEffect, useRef } from 'react';
+import type { PercentCrop } from 'react-image-crop';
+import { getFitLayout } from '../lib/fit';
+import { type RenderSettings, renderOutput } from '../lib/render';
+import { type Transform, getFrameCrop } from '../lib/transform';
+import { type SourceImage, getImageSize } from '../lib/surface';
+import type { Ratio } from '../types';
+
+const PREVIEW_SIZE = 160;
+
+interface RatioPreviewProps {
+  image: SourceImage;
+  crop: PercentCrop;
+  ratio: number;
+  transform: Transform;
+  settings: RenderSettings;
+  extension?: HTMLCanvasElement;
+}
+
+const RatioPreview: React.FC<RatioPreviewProps> = ({ image, crop, ratio, transform, settings, extension }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    const { width, height } = getImageSize(image);
+    const pixelCrop = getFrameCrop(crop, width, height, transform);
+    const outputSize = settings.mode === 'fit'
+      ? getFitLayout(width, height, ratio, transform)
+      : pixelCrop;
+    const scale = PREVIEW_SIZE / Math.max(outputSize.width, outputSize.height);
+    const pixelRatio = Math.min(1, scale) * (window.devicePixelRatio || 1);
+    renderOutput(canvasRef.current, image, pixelCrop, ratio, transform, settings, pixelRatio, extension);
+  }, [image, crop, ratio, transform, settings, extension]);
+
+  return <canvas ref={canvasRef} className="block max-w-full max-h-40 mx-auto" />;
+};
+
+interface RatioPreviewGridProps {
+  image: SourceImage | null;
+  ratios: Ratio[];
+  activeRatio: Ratio;
+  transform: Transform;
+  settings: RenderSettings;
+  getCrop: (ratio: Ratio) => PercentCrop | null;
+  extensions?: Record<string, HTMLCanvasElement>;
+  onSelect: (ratio: Ratio) => void;
+}
+
+const RatioPreviewGrid: React.FC<RatioPreviewGridProps> = ({ image, ratios, activeRatio, transform, settings, getCrop, extensions, onSelect }) => {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+      {ratios.map(ratio => {
+        const crop = getCrop(ratio);
+        const isActive = ratio.label === activeRatio.label;
+        return (
+          <button
+            key={ratio.label}
+            onClick={() => onSelect(ratio)}
+            aria-pressed={isActive}
+            aria-label={`Edit ${ratio.label} crop`}
+            className={`flex flex-col gap-2 p-2 rounded-lg bg-slate-700/50 border-2 transition-colors ${
+              isActive ? 'border-sky-400' : 'border-transparent hover:border-slate-500'
+            }`}
+          >
+            <div className="flex items-center justify-center h-40 w-full">
+              {image && crop && (
+                <RatioPreview
+                  image={image}
+                  crop={crop}
+                  ratio={ratio.value}
+                  transform={transform}
+                  settings={settings}
+                  extension={extensions?.[ratio.label]}
+                />
+              )}
+            </div>
+            <span className="text-sm font-medium text-slate-300">{ratio.label}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RatioPreviewGrid;
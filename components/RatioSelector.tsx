@@ -1,20 +1,16 @@
 import React from 'react';
-
-interface Ratio {
-  label: string;
-  value: number;
-}
+import type { Ratio, RatioGroup } from '../types';
 
 interface RatioSelectorProps {
-  ratios: Ratio[];
+  groups: RatioGroup[];
   selectedRatio: Ratio;
   onChange: (ratio: Ratio) => void;
   disabled?: boolean;
 }
 
-const RatioSelector: React.FC<RatioSelectorProps> = ({ ratios, selectedRatio, onChange, disabled = false }) => {
+const RatioSelector: React.FC<RatioSelectorProps> = ({ groups, selectedRatio, onChange, disabled = false }) => {
   const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
-    const selected = ratios.find(r => r.label === event.target.value);
+    const selected = groups.flatMap(group => group.ratios).find(r => r.label === event.target.value);
     if (selected) {
       onChange(selected);
     }
@@ -26,15 +22,19 @@ const RatioSelector: React.FC<RatioSelectorProps> = ({ ratios, selectedRatio, on
       value={selectedRatio.label}
       onChange={handleChange}
       disabled={disabled}
-      className="bg-slate-700 border border-slate-600 text-white text-lg rounded-lg focus:ring-sky-500 focus:border-sky-500 block w-full max-w-[200px] p-2.5 transition-colors"
+      className="bg-slate-700 border border-slate-600 text-white text-lg rounded-lg focus:ring-sky-500 focus:border-sky-500 block w-full max-w-[320px] p-2.5 transition-colors"
     >
-      {ratios.map(ratio => (
-        <option key={ratio.label} value={ratio.label}>
-          {ratio.label}
-        </option>
+      {groups.map(group => (
+        <optgroup key={group.name} label={group.name}>
+          {group.ratios.map(ratio => (
+            <option key={ratio.label} value={ratio.label}>
+              {ratio.label}
+            </option>
+          ))}
+        </optgroup>
       ))}
     </select>
   );
 };
 
-export default RatioSelector;
\ No newline at end of file
+export default RatioSelector;
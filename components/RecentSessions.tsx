@@ -0,0 +1,53 @@
+import React from 'react';
+import type { SessionSummary } from '../lib/session';
+
+interface RecentSessionsProps {
+  sessions: SessionSummary[];
+  onOpen: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const RecentSessions: React.FC<RecentSessionsProps> = ({ sessions, onOpen, onRemove }) => {
+  if (sessions.length === 0) return null;
+
+  return (
+    <section className="mt-8" aria-labelledby="recent-sessions-heading">
+      <h2 id="recent-sessions-heading" className="text-lg font-semibold text-slate-300 mb-3">Recent sessions</h2>
+      <ul className="flex gap-3 overflow-x-auto pb-2">
+        {sessions.map(session => (
+          <li key={session.id} className="flex-shrink-0 w-32">
+            <div className="relative rounded-lg overflow-hidden bg-slate-700/50 border-2 border-transparent hover:border-slate-500">
+              <button
+                onClick={() => onOpen(session.id)}
+                className="flex items-center justify-center w-full h-24"
+                aria-label={`Reopen ${session.name}`}
+              >
+                {session.thumbnail ? (
+                  <img src={session.thumbnail} alt="" className="block max-h-24 max-w-full" />
+                ) : (
+                  <span className="text-xs text-slate-400">No preview</span>
+                )}
+              </button>
+              <button
+                onClick={() => onRemove(session.id)}
+                className="absolute top-1 right-1 w-6 h-6 rounded-full bg-slate-900/80 text-slate-200 text-sm leading-none hover:bg-red-500"
+                aria-label={`Remove ${session.name} from recent sessions`}
+              >
+                &times;
+              </button>
+            </div>
+            <p className="mt-1 text-xs text-slate-300 truncate" title={session.name}>
+              {session.name}{session.count > 1 && ` +${session.count - 1}`}
+            </p>
+            <p className="text-xs text-slate-400 truncate">{formatTime(session.updatedAt)}</p>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default RecentSessions;
@@ -0,0 +1,51 @@
+import React, { useRef, useState } from 'react';
+
+interface RecipeControlsProps {
+  onSave: () => void;
+  // Resolves to an error message, or null once the recipe is applied.
+  onApply: (file: File) => Promise<string | null>;
+  disabled: boolean;
+}
+
+const buttonClasses =
+  'px-3 py-1.5 text-sm font-semibold rounded-lg bg-slate-600 hover:bg-slate-500 text-slate-100 focus:outline-none focus:ring-2 focus:ring-sky-400 disabled:opacity-50 disabled:cursor-not-allowed';
+
+// Saves the current framing as a JSON "crop recipe", or applies one (see
+// lib/recipe).
+const RecipeControls: React.FC<RecipeControlsProps> = ({ onSave, onApply, disabled }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(await onApply(file));
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex flex-wrap items-center justify-center gap-2" role="group" aria-label="Crop recipe">
+        <span className="text-sm text-slate-400 mr-1">Crop recipe</span>
+        <button type="button" onClick={onSave} disabled={disabled} className={buttonClasses}>
+          Save
+        </button>
+        <button type="button" onClick={() => inputRef.current?.click()} className={buttonClasses}>
+          Apply...
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleChange}
+          className="hidden"
+          aria-hidden="true"
+          tabIndex={-1}
+        />
+      </div>
+      {error && <p className="text-sm text-red-400" role="alert">{error}</p>}
+    </div>
+  );
+};
+
+export default RecipeControls;
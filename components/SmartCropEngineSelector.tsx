@@ -0,0 +1,28 @@
+import React from 'react';
+import type { SmartCropEngine } from '../types';
+
+interface SmartCropEngineSelectorProps {
+  engine: SmartCropEngine;
+  onChange: (engine: SmartCropEngine) => void;
+  disabled?: boolean;
+}
+
+const SmartCropEngineSelector: React.FC<SmartCropEngineSelectorProps> = ({ engine, onChange, disabled = false }) => {
+  return (
+    <div className="flex items-center gap-2">
+      <label htmlFor="smart-crop-engine" className="text-sm text-slate-400">Engine</label>
+      <select
+        id="smart-crop-engine"
+        value={engine}
+        onChange={(e) => onChange(e.target.value as SmartCropEngine)}
+        disabled={disabled}
+        className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 p-2"
+      >
+        <option value="ai">AI</option>
+        <option value="local">Local</option>
+      </select>
+    </div>
+  );
+};
+
+export default SmartCropEngineSelector;
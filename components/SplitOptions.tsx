@@ -0,0 +1,56 @@
+import React from 'react';
+import type { Ratio } from '../types';
+import { MAX_SPLIT, splitRatio } from '../lib/split';
+
+interface SplitOptionsProps {
+  // The ratio open in the editor: a split one, or the tile to start from.
+  ratio: Ratio;
+  onChange: (ratio: Ratio) => void;
+  disabled?: boolean;
+}
+
+const fieldClasses = 'bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 p-1.5 w-16';
+
+// Turns the selected ratio into a grid of tiles of that ratio and back. A
+// single row of 3 is the usual panorama carousel; 3×3 a profile grid.
+const SplitOptions: React.FC<SplitOptionsProps> = ({ ratio, onChange, disabled = false }) => {
+  const grid = ratio.split;
+
+  const count = (value: number, label: string, change: (value: number) => void) => (
+    <input
+      type="number"
+      min="1"
+      max={MAX_SPLIT}
+      value={value}
+      onChange={(e) => change(Number(e.target.value))}
+      disabled={disabled}
+      aria-label={label}
+      className={fieldClasses}
+    />
+  );
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-slate-300">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={grid !== undefined}
+          onChange={(e) => onChange(e.target.checked ? splitRatio(ratio, 3, 1) : grid!.tile)}
+          disabled={disabled}
+          className="accent-sky-500"
+        />
+        Split into tiles
+      </label>
+      {grid && (
+        <>
+          {count(grid.columns, 'Columns', (columns) => onChange(splitRatio(grid.tile, columns, grid.rows)))}
+          <span aria-hidden="true">×</span>
+          {count(grid.rows, 'Rows', (rows) => onChange(splitRatio(grid.tile, grid.columns, rows)))}
+          <span className="text-slate-400">of {grid.tile.label}</span>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SplitOptions;
@@ -0,0 +1,49 @@
+import React from 'react';
+import type { SmartCropCandidate } from '../types';
+
+interface SubjectOverlayProps {
+  candidates: SmartCropCandidate[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+}
+
+// Outlines the subject boxes smart crop detected, on top of the editor image.
+// Rendered as a sibling of the <img> inside ReactCrop, so percentages map onto
+// the image. Only the labels take clicks; the outlines let drags through to
+// the crop underneath.
+const SubjectOverlay: React.FC<SubjectOverlayProps> = ({ candidates, selectedIndex, onSelect }) => {
+  return (
+    <>
+      {candidates.map((candidate, index) => {
+        const isSelected = index === selectedIndex;
+        return (
+          <div
+            key={index}
+            className={`absolute border-2 border-dashed pointer-events-none ${isSelected ? 'border-amber-400' : 'border-slate-200/70'}`}
+            style={{
+              left: `${candidate.box.x}%`,
+              top: `${candidate.box.y}%`,
+              width: `${candidate.box.width}%`,
+              height: `${candidate.box.height}%`,
+            }}
+          >
+            <button
+              onClick={() => onSelect(index)}
+              // Keep ReactCrop from treating the click as the start of a new crop.
+              onPointerDown={(e) => e.stopPropagation()}
+              aria-pressed={isSelected}
+              aria-label={`Crop to ${candidate.label}`}
+              className={`absolute top-0 left-0 z-10 pointer-events-auto px-1.5 py-0.5 rounded text-xs font-semibold whitespace-nowrap ${
+                isSelected ? 'bg-amber-400 text-slate-900' : 'bg-slate-900/80 text-slate-100 hover:bg-slate-700'
+              }`}
+            >
+              {index + 1}. {candidate.label}
+            </button>
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default SubjectOverlay;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { MAX_STRAIGHTEN, type Transform } from '../lib/transform';
+
+interface TransformControlsProps {
+  transform: Transform;
+  onChange: (transform: Transform) => void;
+  disabled?: boolean;
+}
+
+const toggleClasses = (active: boolean) =>
+  `px-3 py-2 text-sm font-semibold rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-400 disabled:opacity-50 ${
+    active ? 'bg-sky-500 text-white' : 'bg-slate-600 hover:bg-slate-500 text-slate-100'
+  }`;
+
+const TransformControls: React.FC<TransformControlsProps> = ({ transform, onChange, disabled = false }) => {
+  const setStraighten = (value: number) => {
+    const clamped = Math.max(-MAX_STRAIGHTEN, Math.min(MAX_STRAIGHTEN, value));
+    onChange({ ...transform, straighten: Math.round(clamped * 10) / 10 });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-3">
+      <label htmlFor="straighten" className="text-sm text-slate-400">Straighten</label>
+      <input
+        id="straighten"
+        type="range"
+        min={-MAX_STRAIGHTEN}
+        max={MAX_STRAIGHTEN}
+        step="0.1"
+        value={transform.straighten}
+        onChange={(e) => setStraighten(parseFloat(e.target.value))}
+        onDoubleClick={() => setStraighten(0)}
+        disabled={disabled}
+        className="w-48 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer"
+      />
+      <input
+        type="number"
+        min={-MAX_STRAIGHTEN}
+        max={MAX_STRAIGHTEN}
+        step="0.1"
+        value={transform.straighten}
+        onChange={(e) => setStraighten(Number(e.target.value) || 0)}
+        disabled={disabled}
+        aria-label="Straighten angle in degrees"
+        className="bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 p-1.5 w-20"
+      />
+      <button
+        type="button"
+        onClick={() => onChange({ ...transform, flipH: !transform.flipH })}
+        disabled={disabled}
+        aria-pressed={transform.flipH}
+        className={toggleClasses(transform.flipH)}
+      >
+        Flip H
+      </button>
+      <button
+        type="button"
+        onClick={() => onChange({ ...transform, flipV: !transform.flipV })}
+        disabled={disabled}
+        aria-pressed={transform.flipV}
+        className={toggleClasses(transform.flipV)}
+      >
+        Flip V
+      </button>
+    </div>
+  );
+};
+
+export default TransformControls;
@@ -1,15 +1,78 @@
 
-import React, { useState, useCallback, RefObject } from 'react';
-import { UploadIcon } from './Icons';
+import React, { useState, useCallback, useEffect, RefObject } from 'react';
+import { CameraIcon, UploadIcon } from './Icons';
+import CameraCapture from './CameraCapture';
+import { SUPPORTED_FORMATS_LABEL } from '../lib/decode';
 
 interface UploadAreaProps {
-  onFileDrop: (file: File) => void;
+  onFilesDrop: (files: File[]) => void;
   onFileChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  // Resolves to an error message, or null once the image is imported.
+  onImportUrl: (url: string) => Promise<string | null>;
   fileInputRef: RefObject<HTMLInputElement>;
 }
 
-const UploadArea: React.FC<UploadAreaProps> = ({ onFileDrop, onFileChange, fileInputRef }) => {
+// Only offer the camera when the browser can use one and a device has one.
+async function hasCamera(): Promise<boolean> {
+  if (!navigator.mediaDevices?.getUserMedia || !navigator.mediaDevices.enumerateDevices) return false;
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.some(device => device.kind === 'videoinput');
+  } catch {
+    return false;
+  }
+}
+
+// Dropped folders arrive as directory entries rather than files, so walk them
+// to collect every file inside.
+async function readEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return new Promise((resolve) => (entry as FileSystemFileEntry).file(file => resolve([file]), () => resolve([])));
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const entries: FileSystemEntry[] = [];
+    // readEntries returns results in chunks until it yields an empty batch.
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve) => reader.readEntries(resolve, () => resolve([])));
+      if (batch.length === 0) break;
+      entries.push(...batch);
+    }
+    const nested = await Promise.all(entries.map(readEntry));
+    return nested.flat();
+  }
+  return [];
+}
+
+async function getDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+  const files = await Promise.all(entries.map(readEntry));
+  return files.flat();
+}
+
+const UploadArea: React.FC<UploadAreaProps> = ({ onFilesDrop, onFileChange, onImportUrl, fileInputRef }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [url, setUrl] = useState('');
+  const [urlError, setUrlError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [cameraAvailable, setCameraAvailable] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+
+  useEffect(() => {
+    hasCamera().then(setCameraAvailable);
+  }, []);
+
+  const handleImportUrl = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsImporting(true);
+    const message = await onImportUrl(url);
+    setIsImporting(false);
+    setUrlError(message);
+    if (!message) setUrl('');
+  };
 
   const handleDragEnter = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -34,44 +97,96 @@ const UploadArea: React.FC<UploadAreaProps> = ({ onFileDrop, onFileChange, fileI
     setIsDragging(false);
 
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      onFileDrop(e.dataTransfer.files[0]);
-      e.dataTransfer.clearData();
+      // getDroppedFiles grabs the entries synchronously, while the
+      // DataTransfer is still accessible, and only then reads them.
+      getDroppedFiles(e.dataTransfer).then(files => {
+        if (files.length > 0) onFilesDrop(files);
+      });
     }
-  }, [onFileDrop]);
+  }, [onFilesDrop]);
 
   const handleUploadClick = () => {
     fileInputRef.current?.click();
   };
 
-  return (
-    <div
-      onDragEnter={handleDragEnter}
-      onDragLeave={handleDragLeave}
-      onDragOver={handleDragOver}
-      onDrop={handleDrop}
-      className={`relative flex flex-col items-center justify-center w-full h-80 rounded-xl border-2 border-dashed transition-colors duration-300 ${
-        isDragging ? 'border-sky-400 bg-slate-700/50' : 'border-slate-600 hover:border-slate-500'
-      }`}
-    >
-      <input
-        ref={fileInputRef}
-        type="file"
-        accept="image/*"
-        onChange={onFileChange}
-        className="hidden"
+  if (isCameraOpen) {
+    return (
+      <CameraCapture
+        onCapture={(file) => { setIsCameraOpen(false); onFilesDrop([file]); }}
+        onClose={() => setIsCameraOpen(false)}
       />
-      <div className="flex flex-col items-center text-slate-400 pointer-events-none">
-        <UploadIcon className="w-16 h-16 mb-4"/>
-        <p className="text-2xl font-semibold mb-2">
-          {isDragging ? 'Drop Image Here' : 'Drag & Drop or Click to Upload'}
-        </p>
-        <p className="text-sm">Supports any image format (PNG, JPG, WEBP, etc.)</p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div
+        onDragEnter={handleDragEnter}
+        onDragLeave={handleDragLeave}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+        className={`relative flex flex-col items-center justify-center w-full h-80 rounded-xl border-2 border-dashed transition-colors duration-300 ${
+          isDragging ? 'border-sky-400 bg-slate-700/50' : 'border-slate-600 hover:border-slate-500'
+        }`}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*,.heic,.heif,.avif,.tif,.tiff"
+          multiple
+          onChange={onFileChange}
+          className="hidden"
+        />
+        <div className="flex flex-col items-center text-slate-400 pointer-events-none">
+          <UploadIcon className="w-16 h-16 mb-4"/>
+          <p className="text-2xl font-semibold mb-2">
+            {isDragging ? 'Drop Images Here' : 'Drag & Drop or Click to Upload'}
+          </p>
+          <p className="text-sm">Supports {SUPPORTED_FORMATS_LABEL}</p>
+          <p className="text-sm">Drop several images or a whole folder to convert them in one batch</p>
+          <p className="text-sm">or paste an image from the clipboard</p>
+        </div>
+        <button
+          onClick={handleUploadClick}
+          className="absolute top-0 left-0 w-full h-full cursor-pointer opacity-0"
+          aria-label="Upload images"
+        />
+      </div>
+      <div className="flex flex-wrap items-start justify-center gap-3">
+        <form onSubmit={handleImportUrl} className="flex flex-col gap-1 flex-1 min-w-64">
+          <div className="flex gap-2">
+            <label htmlFor="import-url" className="sr-only">Image URL</label>
+            <input
+              id="import-url"
+              type="url"
+              value={url}
+              onChange={(e) => { setUrl(e.target.value); setUrlError(null); }}
+              placeholder="https://example.com/photo.jpg"
+              aria-invalid={urlError !== null}
+              aria-describedby={urlError ? 'import-url-error' : undefined}
+              className="flex-1 bg-slate-700 border border-slate-600 text-white text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 p-2"
+            />
+            <button
+              type="submit"
+              disabled={url.trim() === '' || isImporting}
+              className="px-3 py-2 text-sm font-semibold rounded-lg bg-slate-600 hover:bg-slate-500 text-slate-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isImporting ? 'Importing...' : 'Import URL'}
+            </button>
+          </div>
+          {urlError && <p id="import-url-error" className="text-sm text-red-400" role="alert">{urlError}</p>}
+        </form>
+        {cameraAvailable && (
+          <button
+            type="button"
+            onClick={() => setIsCameraOpen(true)}
+            className="flex items-center gap-2 px-3 py-2 text-sm font-semibold rounded-lg bg-slate-600 hover:bg-slate-500 text-slate-100"
+          >
+            <CameraIcon />
+            Use Camera
+          </button>
+        )}
       </div>
-      <button
-        onClick={handleUploadClick}
-        className="absolute top-0 left-0 w-full h-full cursor-pointer opacity-0"
-        aria-label="Upload image"
-      />
     </div>
   );
 };
@@ -0,0 +1,73 @@
+import { GEMINI_IMAGE_MODELS, GEMINI_MODELS, createGeminiProvider, generateOutpaint } from './gemini';
+import { createMockProvider } from './mockSmartCrop';
+import type { OutpaintModel } from './outpaint';
+import { type SmartCropProvider, requestWithRetries } from './smartCrop';
+
+// Which AI service smart crop uses, with its models and API key. Set at
+// runtime in the settings panel and kept in localStorage, so a deployed
+// build needs no key baked in.
+
+const STORAGE_KEY = 'aspect-ratio-converter:ai-settings';
+
+export type AiProviderId = 'gemini' | 'mock';
+
+export interface AiSettings {
+  provider: AiProviderId;
+  model: string;
+  // Extend with AI always uses Gemini, with this model.
+  imageModel: string;
+  apiKey: string;
+}
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  model: GEMINI_MODELS[0],
+  imageModel: GEMINI_IMAGE_MODELS[0],
+  apiKey: '',
+};
+
+// Generating an image takes far longer than finding subjects.
+const OUTPAINT_TIMEOUT_MS = 120_000;
+
+export function loadAiSettings(): AiSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : {};
+    return {
+      provider: parsed.provider === 'mock' ? 'mock' : 'gemini',
+      model: typeof parsed.model === 'string' && parsed.model.trim() ? parsed.model : DEFAULT_AI_SETTINGS.model,
+      imageModel: typeof parsed.imageModel === 'string' && parsed.imageModel.trim() ? parsed.imageModel : DEFAULT_AI_SETTINGS.imageModel,
+      apiKey: typeof parsed.apiKey === 'string' ? parsed.apiKey : '',
+    };
+  } catch (e) {
+    console.error('Could not read AI settings:', e);
+    return DEFAULT_AI_SETTINGS;
+  }
+}
+
+export function storeAiSettings(settings: AiSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Could not save AI settings:', e);
+  }
+}
+
+export const createSmartCropProvider = (settings: AiSettings): SmartCropProvider =>
+  settings.provider === 'mock'
+    ? createMockProvider()
+    : createGeminiProvider(settings.apiKey.trim(), settings.model.trim() || DEFAULT_AI_SETTINGS.model);
+
+// The outpainting call for extendImage, with the same timeout, retries and
+// error codes as smart crop. `signal` cancels it.
+export const createOutpaintModel = (settings: AiSettings, signal?: AbortSignal): OutpaintModel =>
+  request => requestWithRetries(
+    requestSignal => generateOutpaint(
+      request,
+      settings.apiKey.trim(),
+      settings.imageModel.trim() || DEFAULT_AI_SETTINGS.imageModel,
+      requestSignal,
+    ),
+    signal,
+    OUTPAINT_TIMEOUT_MS,
+  );
@@ -0,0 +1,169 @@
+import type { PercentCrop } from 'react-image-crop';
+import type { Ratio, SmartCropCandidate } from '../types';
+import { createThumbnail, loadImage } from './canvas';
+import { getCenteredCrop } from './crop';
+import { type OutputSize, resolveOutputSize } from './export';
+import type { PrintOptions } from './print';
+import type { RenderSettings } from './render';
+import { runRenderJob } from './renderJob';
+import { IDENTITY_TRANSFORM, type Transform, getFrameSize } from './transform';
+import { UNSUPPORTED_FORMAT_MESSAGE, mightBeImage, normalizeImageFile } from './decode';
+import { type ImageMetadata, type MetadataOptions, keepsColorProfile, readMetadata } from './metadata';
+import type { SavedItem } from './session';
+import type { Tile } from './split';
+
+export type BatchItemStatus = 'pending' | 'ready' | 'processing' | 'done' | 'error';
+export type SmartCropStatus = 'idle' | 'running' | 'applied' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  // The upload itself, or a PNG of it when the browser can't decode the
+  // format (see normalizeImageFile). `url` stays empty until prepared.
+  file: File;
+  url: string;
+  // What the original upload carried, for writing back into exports.
+  metadata: ImageMetadata | null;
+  thumbnail: string | null;
+  naturalWidth: number;
+  naturalHeight: number;
+  // One crop per ratio label, in percent of the transformed frame so it
+  // survives the editor being resized or re-rendered.
+  crops: Record<string, PercentCrop>;
+  // AI-extended fit outputs per ratio label, for the current transform.
+  extensions: Record<string, HTMLCanvasElement>;
+  transform: Transform;
+  smartCrop: SmartCropStatus;
+  // The ranked subject boxes the AI smart crop returned, and which one the
+  // crops are currently fitted to.
+  candidates: SmartCropCandidate[];
+  selectedCandidate: number;
+  status: BatchItemStatus;
+  progress: number;
+  error?: string;
+}
+
+let nextId = 0;
+
+export function createBatchItem(file: File): BatchItem {
+  // The format is only known for sure once prepareBatchItem reads the bytes.
+  const isImage = mightBeImage(file);
+  return {
+    id: `item-${Date.now()}-${nextId++}`,
+    file,
+    url: '',
+    metadata: null,
+    thumbnail: null,
+    naturalWidth: 0,
+    naturalHeight: 0,
+    crops: {},
+    extensions: {},
+    transform: IDENTITY_TRANSFORM,
+    smartCrop: 'idle',
+    candidates: [],
+    selectedCandidate: 0,
+    status: isImage ? 'pending' : 'error',
+    progress: 0,
+    error: isImage ? undefined : UNSUPPORTED_FORMAT_MESSAGE,
+  };
+}
+
+// An item from a saved session (see lib/session), with its edits. The saved
+// file is the working copy, already upright, and the original's metadata
+// comes from the session.
+export function restoreBatchItem(saved: SavedItem, file: File): BatchItem {
+  return {
+    ...createBatchItem(file),
+    id: saved.id,
+    metadata: saved.metadata,
+    crops: saved.crops,
+    transform: saved.transform,
+    candidates: saved.candidates,
+    selectedCandidate: saved.selectedCandidate,
+  };
+}
+
+export const toSavedItem = (item: BatchItem): SavedItem => ({
+  id: item.id,
+  name: item.file.name,
+  metadata: item.metadata,
+  crops: item.crops,
+  transform: item.transform,
+  candidates: item.candidates,
+  selectedCandidate: item.selectedCandidate,
+});
+
+export async function prepareBatchItem(item: BatchItem): Promise<Partial<BatchItem>> {
+  let url = '';
+  try {
+    const file = await normalizeImageFile(item.file);
+    // Restored items keep the metadata read from the original upload.
+    const metadata = item.metadata ?? await readMetadata(file).catch(() => null);
+    url = URL.createObjectURL(file);
+    const image = await loadImage(url);
+    return {
+      file,
+      url,
+      metadata,
+      thumbnail: createThumbnail(image, item.transform),
+      naturalWidth: image.naturalWidth,
+      naturalHeight: image.naturalHeight,
+      status: 'ready',
+    };
+  } catch (e) {
+    if (url) URL.revokeObjectURL(url);
+    if (e instanceof Error && e.message === 'UNSUPPORTED_FORMAT') {
+      return { status: 'error', error: UNSUPPORTED_FORMAT_MESSAGE };
+    }
+    return { status: 'error', error: 'Could not read file.' };
+  }
+}
+
+export function getItemCrop(item: BatchItem, ratio: Ratio): PercentCrop {
+  if (item.crops[ratio.label]) return item.crops[ratio.label];
+  const frame = getFrameSize(item.naturalWidth, item.naturalHeight, item.transform);
+  return getCenteredCrop(ratio.value, frame.width, frame.height);
+}
+
+export async function renderBatchItem(
+  item: BatchItem,
+  ratio: Ratio,
+  settings: RenderSettings,
+  outputSize: OutputSize,
+  format: string,
+  quality: number | undefined,
+  metadataOptions: MetadataOptions,
+  printOptions: PrintOptions,
+  targetBytes: number | null = null,
+  // For split ratios: the one tile to export.
+  tile?: Tile,
+): Promise<Blob> {
+  const extension = item.extensions[ratio.label];
+  const result = await runRenderJob({
+    file: item.file,
+    sourceKey: item.id,
+    unmanaged: keepsColorProfile(item.metadata, metadataOptions),
+    crop: getItemCrop(item, ratio),
+    ratio: ratio.value,
+    transform: item.transform,
+    settings,
+    outputSize: resolveOutputSize(ratio, outputSize),
+    extension: extension && await createImageBitmap(extension),
+    format,
+    quality: quality ?? 1,
+    targetBytes,
+    metadata: item.metadata,
+    metadataOptions,
+    // A tile is printed at the tile's own paper size.
+    print: (tile ? ratio.split?.tile.print : ratio.print) ?? null,
+    printOptions,
+    tile: tile && ratio.split && { grid: ratio.split, tile },
+  });
+  if (!result) {
+    throw new Error('Crop has no area');
+  }
+  return result.blob;
+}
+
+export function releaseBatchItems(items: BatchItem[]) {
+  items.forEach(item => item.url && URL.revokeObjectURL(item.url));
+}
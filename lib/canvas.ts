@@ -0,0 +1,57 @@
+import type { PixelCrop } from 'react-image-crop';
+import { IDENTITY_TRANSFORM, type Transform, drawTransformed, getFrameSize } from './transform';
+import { type RenderCanvas, type SourceImage, get2dContext, getImageSize, isOffscreen } from './surface';
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load image'));
+    image.src = src;
+  });
+}
+
+// Draws `crop` (in frame pixels) of the transformed image onto the canvas.
+// Returns false if the crop has no area.
+export function drawCroppedImage(
+  canvas: RenderCanvas,
+  image: SourceImage,
+  crop: PixelCrop,
+  transform: Transform,
+  pixelRatio = 1,
+): boolean {
+  const ctx = get2dContext(canvas);
+  if (!ctx || crop.width <= 0 || crop.height <= 0) return false;
+
+  canvas.width = Math.floor(crop.width * pixelRatio);
+  canvas.height = Math.floor(crop.height * pixelRatio);
+
+  ctx.scale(pixelRatio, pixelRatio);
+  ctx.imageSmoothingQuality = 'high';
+  const size = getImageSize(image);
+  const frame = getFrameSize(size.width, size.height, transform);
+  drawTransformed(ctx, image, transform, -crop.x, -crop.y, frame.width, frame.height);
+  return true;
+}
+
+export function canvasToBlob(canvas: RenderCanvas, type: string, quality?: number): Promise<Blob> {
+  if (isOffscreen(canvas)) return canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(blob);
+      else reject(new Error('Failed to encode image'));
+    }, type, quality);
+  });
+}
+
+export function createThumbnail(image: SourceImage, transform: Transform = IDENTITY_TRANSFORM, maxSize = 160): string {
+  const size = getImageSize(image);
+  const frame = getFrameSize(size.width, size.height, transform);
+  const scale = Math.min(1, maxSize / Math.max(frame.width, frame.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(frame.width * scale));
+  canvas.height = Math.max(1, Math.round(frame.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (ctx) drawTransformed(ctx, image, transform, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+}
@@ -0,0 +1,96 @@
+import { centerCrop, clamp, makeAspectCrop, type Crop, type PercentCrop, type PixelCrop } from 'react-image-crop';
+
+// Crops live in the transformed frame (see lib/transform), so a ratio is
+// also the crop's aspect. An aspect of 0 means the crop is unlocked ("Free").
+export function getCenteredCrop(aspect: number, width: number, height: number): PercentCrop {
+  if (aspect <= 0) {
+    return { unit: '%', x: 5, y: 5, width: 90, height: 90 };
+  }
+  return centerCrop(
+    makeAspectCrop({ unit: '%', width: 90 }, aspect, width, height),
+    width,
+    height,
+  );
+}
+
+export function percentToPixelCrop(crop: Crop, width: number, height: number): PixelCrop {
+  return {
+    unit: 'px',
+    x: (crop.x / 100) * width,
+    y: (crop.y / 100) * height,
+    width: (crop.width / 100) * width,
+    height: (crop.height / 100) * height,
+  };
+}
+
+export function pixelToPercentCrop(crop: Crop, width: number, height: number): PercentCrop {
+  return {
+    unit: '%',
+    x: (crop.x / width) * 100,
+    y: (crop.y / height) * 100,
+    width: (crop.width / width) * 100,
+    height: (crop.height / height) * 100,
+  };
+}
+
+// Keeps a crop (in frame pixels) inside a width x height frame and, when
+// `aspect` is set, at that aspect. `keep` is the side the user set; the other
+// one follows it.
+export function constrainCrop(
+  crop: PixelCrop,
+  aspect: number,
+  width: number,
+  height: number,
+  keep: 'width' | 'height' = 'width',
+): PixelCrop {
+  let cropWidth = Math.max(1, crop.width);
+  let cropHeight = Math.max(1, crop.height);
+  if (aspect > 0) {
+    if (keep === 'width') cropHeight = cropWidth / aspect;
+    else cropWidth = cropHeight * aspect;
+  }
+  const fit = Math.min(1, width / cropWidth, height / cropHeight);
+  cropWidth *= fit;
+  cropHeight *= fit;
+  return {
+    unit: 'px',
+    x: clamp(crop.x, 0, width - cropWidth),
+    y: clamp(crop.y, 0, height - cropHeight),
+    width: cropWidth,
+    height: cropHeight,
+  };
+}
+
+export type CropAnchor = `${'top' | 'middle' | 'bottom'}-${'left' | 'center' | 'right'}`;
+
+// Moves a crop against an edge, corner or the center of the frame.
+export function anchorCrop(crop: PercentCrop, anchor: CropAnchor): PercentCrop {
+  const [vertical, horizontal] = anchor.split('-');
+  const place = (side: string, size: number) =>
+    side === 'left' || side === 'top' ? 0 : side === 'right' || side === 'bottom' ? 100 - size : (100 - size) / 2;
+  return { ...crop, x: place(horizontal, crop.width), y: place(vertical, crop.height) };
+}
+
+// Fits the largest crop with the given aspect (width / height, in frame
+// pixels) around a subject box given in percent. The crop is centered on the
+// subject and then slid back inside the image, so whenever the subject fits
+// it stays fully in frame; when it doesn't, the crop covers its middle.
+export function fitCropToSubject(subject: Crop, aspect: number, width: number, height: number): PercentCrop {
+  // Without an aspect lock the subject box itself is the crop.
+  if (aspect <= 0) return { ...subject, unit: '%' };
+  const box = percentToPixelCrop(subject, width, height);
+  const cropWidth = Math.min(width, height * aspect);
+  const cropHeight = cropWidth / aspect;
+  const centerX = box.x + box.width / 2;
+  const centerY = box.y + box.height / 2;
+  const x = clamp(centerX - cropWidth / 2, 0, width - cropWidth);
+  const y = clamp(centerY - cropHeight / 2, 0, height - cropHeight);
+
+  return {
+    unit: '%',
+    x: (x / width) * 100,
+    y: (y / height) * 100,
+    width: (cropWidth / width) * 100,
+    height: (cropHeight / height) * 100,
+  };
+}
@@ -0,0 +1,140 @@
+import { canvasToBlob } from './canvas';
+import { getBaseName } from './download';
+
+// Decode layer in front of the upload pipeline. The format is read from the
+// file's magic bytes, since HEIC and TIFF files often arrive with an empty or
+// generic `type`. Formats the browser can't draw are decoded with WASM/JS
+// decoders into a PNG the rest of the app handles like any other upload.
+// Decoders are loaded on first use only.
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'bmp' | 'ico' | 'svg' | 'avif' | 'heif' | 'tiff';
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  svg: 'image/svg+xml',
+  avif: 'image/avif',
+  heif: 'image/heic',
+  tiff: 'image/tiff',
+};
+
+// Every browser decodes these; the rest depend on the browser.
+const UNIVERSAL_FORMATS = new Set<ImageFormat>(['jpeg', 'png', 'gif', 'webp', 'bmp', 'ico', 'svg']);
+
+const AVIF_BRANDS = ['avif', 'avis'];
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'hevm', 'hevs', 'mif1', 'msf1'];
+
+const IMAGE_EXTENSION = /\.(jpe?g|png|gif|webp|bmp|ico|svg|avif|hei[cf]|tiff?)$/i;
+
+export const SUPPORTED_FORMATS_LABEL = 'JPEG, PNG, WebP, GIF, AVIF, HEIC and TIFF';
+export const UNSUPPORTED_FORMAT_MESSAGE = `Unsupported image format. Please use ${SUPPORTED_FORMATS_LABEL}.`;
+
+// A cheap first pass before the bytes are read: anything that claims to be an
+// image, looks like one by name, or has no type at all gets sniffed.
+export const mightBeImage = (file: File) =>
+  file.type.startsWith('image/') || file.type === '' || IMAGE_EXTENSION.test(file.name);
+
+export async function sniffImageFormat(file: Blob): Promise<ImageFormat | null> {
+  const bytes = new Uint8Array(await file.slice(0, 64).arrayBuffer());
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') return 'png';
+  if (ascii(0, 4) === 'GIF8') return 'gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'webp';
+  if (ascii(0, 2) === 'BM') return 'bmp';
+  if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') return 'tiff';
+  if (bytes[0] === 0 && bytes[1] === 0 && bytes[2] === 1 && bytes[3] === 0) return 'ico';
+
+  // ISO base media file (HEIF, AVIF): an `ftyp` box with a major brand and a
+  // list of compatible brands.
+  if (ascii(4, 8) === 'ftyp') {
+    const boxSize = Math.min(bytes.length, new DataView(bytes.buffer).getUint32(0));
+    const major = ascii(8, 12);
+    const compatible: string[] = [];
+    for (let offset = 16; offset + 4 <= boxSize; offset += 4) compatible.push(ascii(offset, offset + 4));
+    if (AVIF_BRANDS.includes(major)) return 'avif';
+    if (HEIF_BRANDS.includes(major)) return 'heif';
+    if (compatible.some(brand => AVIF_BRANDS.includes(brand))) return 'avif';
+    if (compatible.some(brand => HEIF_BRANDS.includes(brand))) return 'heif';
+    return null;
+  }
+
+  // SVG is text, and its root element may come after a prolog or comments.
+  if (file.type === 'image/svg+xml') return 'svg';
+  return null;
+}
+
+async function canBrowserDecode(file: Blob): Promise<boolean> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    bitmap.close();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function imageDataToPng(data: ImageData): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = data.width;
+  canvas.height = data.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('DECODE_FAILED');
+  ctx.putImageData(data, 0, 0);
+  return canvasToBlob(canvas, 'image/png');
+}
+
+async function decodeHeif(file: Blob): Promise<Blob> {
+  const { heicTo } = await import('heic-to');
+  return heicTo({ blob: file, type: 'image/png' });
+}
+
+async function decodeAvif(file: Blob): Promise<Blob> {
+  const { default: decode } = await import('@jsquash/avif/decode');
+  const data = await decode(await file.arrayBuffer());
+  if (!data) throw new Error('DECODE_FAILED');
+  return imageDataToPng(data);
+}
+
+// Multi-page TIFFs (e.g. scans with a thumbnail page) open at their largest page.
+async function decodeTiff(file: Blob): Promise<Blob> {
+  const UTIF = await import('utif');
+  const buffer = await file.arrayBuffer();
+  const pages = UTIF.decode(buffer);
+  pages.forEach(page => UTIF.decodeImage(buffer, page));
+  const page = pages
+    .filter(p => p.width > 0 && p.height > 0)
+    .sort((a, b) => b.width * b.height - a.width * a.height)[0];
+  if (!page) throw new Error('DECODE_FAILED');
+  const rgba = UTIF.toRGBA8(page);
+  return imageDataToPng(new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength), page.width, page.height));
+}
+
+// Returns a file the browser can draw: the upload itself (with its type
+// corrected from the magic bytes) or a PNG decoded from it. Throws
+// UNSUPPORTED_FORMAT for anything that isn't a known image, and
+// DECODE_FAILED when a decoder gives up on a damaged file.
+export async function normalizeImageFile(file: File): Promise<File> {
+  const format = await sniffImageFormat(file);
+  if (!format) throw new Error('UNSUPPORTED_FORMAT');
+
+  const typed = file.type === MIME_TYPES[format]
+    ? file
+    : new File([file], file.name, { type: MIME_TYPES[format], lastModified: file.lastModified });
+  if (UNIVERSAL_FORMATS.has(format) || await canBrowserDecode(typed)) return typed;
+
+  let decoded: Blob;
+  try {
+    decoded = format === 'heif' ? await decodeHeif(typed)
+      : format === 'avif' ? await decodeAvif(typed)
+      : await decodeTiff(typed);
+  } catch {
+    throw new Error('DECODE_FAILED');
+  }
+  return new File([decoded], `${getBaseName(file.name)}.png`, { type: 'image/png', lastModified: file.lastModified });
+}
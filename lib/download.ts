@@ -0,0 +1,31 @@
+export function downloadUrl(href: string, filename: string) {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  // Give the browser a moment to start the download before releasing it.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export const getFormatExtension = (format: string) => format.split('/')[1];
+
+// "16:9" -> "16x9", "Instagram Portrait 1080×1350" -> "instagram-portrait-1080x1350"
+export const getRatioSuffix = (label: string) =>
+  label
+    .replace(/[:×]/g, 'x')
+    .replace(/[^a-zA-Z0-9.]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+
+// "holiday shoot.final.jpg" -> "holiday shoot.final"
+export const getBaseName = (filename: string) => {
+  const dot = filename.lastIndexOf('.');
+  return dot > 0 ? filename.slice(0, dot) : filename;
+};
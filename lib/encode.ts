@@ -0,0 +1,103 @@
+import { canvasToBlob } from './canvas';
+import { type RenderCanvas, get2dContext } from './surface';
+
+// Encoding of the rendered output: AVIF support on top of canvas.toBlob, and
+// a "target size" mode that searches the quality for a byte budget.
+
+export interface EncodeResult {
+  blob: Blob;
+  // The quality the blob was encoded at (unchanged for lossless formats).
+  quality: number;
+  // False when even the lowest quality is over the target size.
+  withinTarget: boolean;
+}
+
+// A file size worked out without encoding the full output (see
+// getEstimateSize). `approximate` is false when it is the real file's size.
+export interface SizeEstimate {
+  bytes: number;
+  quality: number;
+  withinTarget: boolean;
+  approximate: boolean;
+}
+
+// Size estimates are encoded at no more than this many pixels and scaled up
+// by the pixel count, which keeps them cheap while the crop is being edited.
+const ESTIMATE_MAX_PIXELS = 1_000_000;
+
+// The size to encode an estimate for `output` at, and how many times more
+// pixels the real output has.
+export function getEstimateSize(output: { width: number; height: number }) {
+  const scale = Math.min(1, Math.sqrt(ESTIMATE_MAX_PIXELS / (output.width * output.height)));
+  const width = Math.max(1, Math.round(output.width * scale));
+  const height = Math.max(1, Math.round(output.height * scale));
+  return { width, height, factor: (output.width * output.height) / (width * height) };
+}
+
+// PNG is lossless, so quality (and with it a target size) doesn't apply.
+export const isLossyFormat = (format: string) => format !== 'image/png';
+
+const MIN_QUALITY = 0.05;
+const SEARCH_STEPS = 7;
+
+// Chromium and Safari can't encode AVIF from a canvas (toBlob silently falls
+// back to PNG), so AVIF goes through a WASM encoder unless the browser
+// produced the real thing.
+async function encodeAvif(canvas: RenderCanvas, quality: number): Promise<Blob> {
+  const native = await canvasToBlob(canvas, 'image/avif', quality).catch(() => null);
+  if (native?.type === 'image/avif') return native;
+  const ctx = get2dContext(canvas);
+  if (!ctx) throw new Error('Failed to encode image');
+  const { default: encode } = await import('@jsquash/avif/encode');
+  const data = await encode(ctx.getImageData(0, 0, canvas.width, canvas.height), {
+    quality: Math.round(quality * 100),
+  });
+  return new Blob([data], { type: 'image/avif' });
+}
+
+export function encodeCanvas(canvas: RenderCanvas, format: string, quality?: number): Promise<Blob> {
+  if (format === 'image/avif') return encodeAvif(canvas, quality ?? 0.5);
+  return canvasToBlob(canvas, format, quality);
+}
+
+// Encodes at `quality`, or, given `targetBytes`, at the highest quality
+// whose output fits. `encode` is the whole encoding step (including any
+// metadata written into the file), so the budget covers the final bytes.
+export async function encodeOutput(
+  encode: (quality: number) => Promise<Blob>,
+  format: string,
+  quality: number,
+  targetBytes: number | null,
+): Promise<EncodeResult> {
+  if (targetBytes === null || !isLossyFormat(format)) {
+    return { blob: await encode(quality), quality, withinTarget: true };
+  }
+
+  // Try the requested quality first; a binary search only runs when it's
+  // too big.
+  const first = await encode(quality);
+  if (first.size <= targetBytes) return { blob: first, quality, withinTarget: true };
+
+  let low = MIN_QUALITY;
+  let high = quality;
+  let best: EncodeResult | null = null;
+  for (let step = 0; step < SEARCH_STEPS; step++) {
+    const mid = (low + high) / 2;
+    const blob = await encode(mid);
+    if (blob.size <= targetBytes) {
+      best = { blob, quality: mid, withinTarget: true };
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  if (best) return best;
+
+  const smallest = await encode(MIN_QUALITY);
+  return { blob: smallest, quality: MIN_QUALITY, withinTarget: smallest.size <= targetBytes };
+}
+
+export const formatBytes = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B`
+    : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(bytes < 10 * 1024 ? 1 : 0)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
@@ -0,0 +1,142 @@
+import type { PixelCrop } from 'react-image-crop';
+import type { Ratio } from '../types';
+import { getFitLayout } from './fit';
+import { type RenderSettings, renderOutput } from './render';
+import type { Transform } from './transform';
+import { type RenderCanvas, type SourceImage, createCanvas, get2dContext, getImageSize } from './surface';
+
+// Export rendering. Unlike the preview canvas, which is sized for the screen,
+// exports are drawn offscreen at the crop's native pixels and then resampled
+// to the requested output size, so the same crop gives the same file on
+// every display.
+
+export type OutputSizeMode = 'native' | 'exact' | 'longEdge' | 'scale';
+
+export interface OutputSize {
+  mode: OutputSizeMode;
+  // 'exact': either may be 0 to derive it from the other and the aspect.
+  width: number;
+  height: number;
+  // 'longEdge': the longest side is reduced to this (never enlarged).
+  longEdge: number;
+  // 'scale': in percent of the native size.
+  scale: number;
+}
+
+export const DEFAULT_OUTPUT_SIZE: OutputSize = {
+  mode: 'native',
+  width: 1920,
+  height: 0,
+  longEdge: 2048,
+  scale: 100,
+};
+
+// Platform presets export at their own pixel size, whatever the user picked.
+export function resolveOutputSize(ratio: Ratio, size: OutputSize): OutputSize {
+  return ratio.size ? { ...size, mode: 'exact', width: ratio.size.width, height: ratio.size.height } : size;
+}
+
+export const isUpscaling = (native: Dimensions, output: Dimensions) =>
+  output.width > native.width || output.height > native.height;
+
+export interface Dimensions {
+  width: number;
+  height: number;
+}
+
+// Size of the render before any resampling: the crop in crop mode, the padded
+// canvas in fit mode, or the AI extension when there is one.
+export function getNativeSize(
+  image: SourceImage,
+  crop: PixelCrop,
+  ratio: number,
+  transform: Transform,
+  settings: RenderSettings,
+  extension?: RenderCanvas | ImageBitmap,
+): Dimensions {
+  if (settings.mode === 'fit') {
+    if (extension) return { width: extension.width, height: extension.height };
+    const size = getImageSize(image);
+    const layout = getFitLayout(size.width, size.height, ratio, transform);
+    return { width: layout.width, height: layout.height };
+  }
+  return { width: Math.floor(crop.width), height: Math.floor(crop.height) };
+}
+
+export function getOutputDimensions(native: Dimensions, size: OutputSize): Dimensions {
+  const aspect = native.width / native.height;
+  const round = (value: number) => Math.max(1, Math.round(value));
+
+  switch (size.mode) {
+    case 'exact': {
+      if (size.width > 0 && size.height > 0) return { width: round(size.width), height: round(size.height) };
+      if (size.width > 0) return { width: round(size.width), height: round(size.width / aspect) };
+      if (size.height > 0) return { width: round(size.height * aspect), height: round(size.height) };
+      return native;
+    }
+    case 'longEdge': {
+      const longest = Math.max(native.width, native.height);
+      if (size.longEdge <= 0 || longest <= size.longEdge) return native;
+      const factor = size.longEdge / longest;
+      return { width: round(native.width * factor), height: round(native.height * factor) };
+    }
+    case 'scale': {
+      const factor = Math.max(0, size.scale) / 100;
+      return { width: round(native.width * factor), height: round(native.height * factor) };
+    }
+    default:
+      return native;
+  }
+}
+
+// Scales `source` to exactly width x height. If the aspect differs slightly
+// the source is center-cropped to cover rather than stretched. Large
+// reductions are done in halving steps, which avoids the aliasing a single
+// drawImage produces when shrinking by more than 2x.
+export function resampleCanvas(source: RenderCanvas, width: number, height: number): RenderCanvas {
+  if (source.width === width && source.height === height) return source;
+
+  const cover = Math.max(width / source.width, height / source.height);
+  let current: RenderCanvas = source;
+  let sw = width / cover;
+  let sh = height / cover;
+  let sx = (source.width - sw) / 2;
+  let sy = (source.height - sh) / 2;
+
+  while (sw / 2 >= width && sh / 2 >= height) {
+    const step = createCanvas(Math.round(sw / 2), Math.round(sh / 2));
+    const ctx = get2dContext(step);
+    if (!ctx) break;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(current, sx, sy, sw, sh, 0, 0, step.width, step.height);
+    current = step;
+    sx = 0;
+    sy = 0;
+    sw = step.width;
+    sh = step.height;
+  }
+
+  const output = createCanvas(width, height);
+  const ctx = get2dContext(output);
+  if (!ctx) return current;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(current, sx, sy, sw, sh, 0, 0, width, height);
+  return output;
+}
+
+// Renders the final output offscreen. Returns null if there is nothing to
+// draw (e.g. an empty crop).
+export function renderExport(
+  image: SourceImage,
+  crop: PixelCrop,
+  ratio: number,
+  transform: Transform,
+  settings: RenderSettings,
+  outputSize: OutputSize,
+  extension?: RenderCanvas | ImageBitmap,
+): RenderCanvas | null {
+  const canvas = createCanvas();
+  if (!renderOutput(canvas, image, crop, ratio, transform, settings, 1, extension)) return null;
+  const { width, height } = getOutputDimensions({ width: canvas.width, height: canvas.height }, outputSize);
+  return resampleCanvas(canvas, width, height);
+}
@@ -0,0 +1,119 @@
+import { type Transform, drawTransformed, getFrameSize } from './transform';
+import { type RenderCanvas, type SourceImage, createCanvas, get2dContext, getImageSize } from './surface';
+
+export type ConversionMode = 'crop' | 'fit';
+export type FitFill = 'color' | 'edge' | 'blur' | 'transparent';
+
+export interface FitOptions {
+  fill: FitFill;
+  // Used by the 'color' fill, as a CSS color.
+  color: string;
+}
+
+export const DEFAULT_FIT_OPTIONS: FitOptions = { fill: 'blur', color: '#000000' };
+
+export interface FitLayout {
+  width: number;
+  height: number;
+  // Size of the transformed image inside the output.
+  imageWidth: number;
+  imageHeight: number;
+  // Whether the padding goes left/right (true) or top/bottom (false).
+  padsSides: boolean;
+}
+
+// The output keeps the image at its native resolution and grows the shorter
+// dimension until it matches `ratio`. A free ratio (0) adds no padding.
+export function getFitLayout(naturalWidth: number, naturalHeight: number, ratio: number, transform: Transform): FitLayout {
+  const { width: imageWidth, height: imageHeight } = getFrameSize(naturalWidth, naturalHeight, transform);
+  if (ratio <= 0) {
+    return { width: imageWidth, height: imageHeight, imageWidth, imageHeight, padsSides: false };
+  }
+  const padsSides = imageWidth / imageHeight < ratio;
+  return {
+    width: padsSides ? Math.round(imageHeight * ratio) : imageWidth,
+    height: padsSides ? imageHeight : Math.round(imageWidth / ratio),
+    imageWidth,
+    imageHeight,
+    padsSides,
+  };
+}
+
+const SAMPLE_SIZE = 64;
+
+// Averages the pixels along the edges that touch the padding, so the fill
+// blends into the photo. Works on a downscaled copy to stay cheap.
+export function getEdgeColor(image: SourceImage, transform: Transform, padsSides: boolean): string {
+  const size = getImageSize(image);
+  const frame = getFrameSize(size.width, size.height, transform);
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(frame.width, frame.height));
+  const width = Math.max(1, Math.round(frame.width * scale));
+  const height = Math.max(1, Math.round(frame.height * scale));
+  const ctx = get2dContext(createCanvas(width, height), { willReadFrequently: true });
+  if (!ctx) return '#000000';
+  drawTransformed(ctx, image, transform, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  // Padding on the output's sides touches the frame's left/right columns.
+  let r = 0, g = 0, b = 0, count = 0;
+  const add = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    if (data[i + 3] === 0) return;
+    r += data[i]; g += data[i + 1]; b += data[i + 2];
+    count++;
+  };
+  if (padsSides) {
+    for (let y = 0; y < height; y++) { add(0, y); add(width - 1, y); }
+  } else {
+    for (let x = 0; x < width; x++) { add(x, 0); add(x, height - 1); }
+  }
+  if (count === 0) return '#000000';
+  const hex = (v: number) => Math.round(v / count).toString(16).padStart(2, '0');
+  return `#${hex(r)}${hex(g)}${hex(b)}`;
+}
+
+// Draws the whole image inside an output of aspect `ratio`, filling the
+// empty space according to `options.fill`.
+export function drawFittedImage(
+  canvas: RenderCanvas,
+  image: SourceImage,
+  ratio: number,
+  transform: Transform,
+  options: FitOptions,
+  pixelRatio = 1,
+): boolean {
+  const ctx = get2dContext(canvas);
+  const size = getImageSize(image);
+  if (!ctx || size.width === 0 || size.height === 0) return false;
+
+  const layout = getFitLayout(size.width, size.height, ratio, transform);
+  canvas.width = Math.floor(layout.width * pixelRatio);
+  canvas.height = Math.floor(layout.height * pixelRatio);
+
+  ctx.scale(pixelRatio, pixelRatio);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.clearRect(0, 0, layout.width, layout.height);
+
+  if (options.fill === 'color' || options.fill === 'edge') {
+    ctx.fillStyle = options.fill === 'color' ? options.color : getEdgeColor(image, transform, layout.padsSides);
+    ctx.fillRect(0, 0, layout.width, layout.height);
+  }
+
+  const drawCentered = (width: number, height: number) =>
+    drawTransformed(ctx, image, transform, (layout.width - width) / 2, (layout.height - height) / 2, width, height);
+
+  if (options.fill === 'blur') {
+    const blurRadius = Math.max(layout.width, layout.height) * 0.03;
+    ctx.save();
+    ctx.filter = `blur(${blurRadius}px)`;
+    // Overscan so the blur doesn't fade out towards the canvas edges.
+    const overscan = 1 + (blurRadius * 4) / Math.min(layout.width, layout.height);
+    // Scaled uniformly so the blurred copy isn't stretched.
+    const cover = Math.max(layout.width / layout.imageWidth, layout.height / layout.imageHeight) * overscan;
+    drawCentered(layout.imageWidth * cover, layout.imageHeight * cover);
+    ctx.restore();
+  }
+
+  drawCentered(layout.imageWidth, layout.imageHeight);
+  return true;
+}
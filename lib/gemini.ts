@@ -1,21 +1,35 @@
-import { GoogleGenAI, Type } from '@google/genai';
-import type { Crop, PercentCrop } from 'react-image-crop';
-
-// The GoogleGenAI instance is lazily initialized to avoid
-// a crash on load if the API key is not configured.
-let ai: GoogleGenAI | null = null;
-
-function getAiInstance(): GoogleGenAI {
-  if (!ai) {
-    // The API key must be obtained from the environment variable.
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-      // Throw a specific error if the key is missing.
-      throw new Error("API_KEY_NOT_CONFIGURED");
-    }
-    ai = new GoogleGenAI({ apiKey });
+import { ApiError, type GenerateContentResponse, GoogleGenAI, Modality, Type } from '@google/genai';
+import type { OutpaintRequest, OutpaintResult } from './outpaint';
+import type { SmartCropCandidate } from '../types';
+import { type SmartCropProvider, smartCropError, toPercentCrop } from './smartCrop';
+
+// Gemini-backed smart crop and outpainting. The API key and model come from
+// the runtime settings (see lib/aiSettings), so a client is created per key.
+let ai: { apiKey: string; client: GoogleGenAI } | null = null;
+
+function getAiInstance(apiKey: string): GoogleGenAI {
+  if (!apiKey) {
+    // Throw a specific error if the key is missing.
+    throw new Error("API_KEY_NOT_CONFIGURED");
   }
-  return ai;
+  if (ai?.apiKey !== apiKey) {
+    ai = { apiKey, client: new GoogleGenAI({ apiKey }) };
+  }
+  return ai.client;
+}
+
+// Sorts what the SDK and fetch throw into the smart crop error codes. Gemini
+// answers an invalid key with a 400, not a 401.
+function toSmartCropError(e: unknown): Error {
+  if (e instanceof ApiError) {
+    if (e.status === 401 || e.status === 403 || (e.status === 400 && /api key/i.test(e.message))) return smartCropError('AUTH_FAILED');
+    if (e.status === 429) return smartCropError('QUOTA_EXCEEDED');
+    if (e.status >= 500) return smartCropError('NETWORK_ERROR');
+    return smartCropError('BAD_RESPONSE');
+  }
+  // fetch rejects with a TypeError when the request never got an answer.
+  if (e instanceof TypeError) return smartCropError('NETWORK_ERROR');
+  return e instanceof Error ? e : smartCropError('BAD_RESPONSE');
 }
 
 async function fileToGenerativePart(file: File) {
@@ -37,68 +51,140 @@ async function fileToGenerativePart(file: File) {
   };
 }
 
-export async function getSmartCrop(imageFile: File): Promise<PercentCrop | null> {
-    const aiInstance = getAiInstance();
+export const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+
+// Models that can return images, for Extend with AI.
+export const GEMINI_IMAGE_MODELS = ['gemini-2.5-flash-image'];
+
+interface CandidateData {
+  label?: unknown;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isCandidateData = (value: unknown): value is CandidateData =>
+  isRecord(value) && ['x', 'y', 'width', 'height'].every(key => typeof value[key] === 'number' && Number.isFinite(value[key]));
+
+export function createGeminiProvider(apiKey: string, model: string): SmartCropProvider {
+    return {
+        id: `gemini:${model}`,
+        findSubjects: (image, instruction, signal) => findSubjects(apiKey, model, image, instruction, signal),
+    };
+}
+
+async function findSubjects(apiKey: string, model: string, imageFile: File, instruction: string, signal: AbortSignal): Promise<SmartCropCandidate[]> {
+    const aiInstance = getAiInstance(apiKey);
     const imagePart = await fileToGenerativePart(imageFile);
+    const guidance = instruction
+        ? ` Follow this instruction from the user when deciding which subject matters most: "${instruction}".`
+        : '';
 
+    let text: string | undefined;
     try {
         const response = await aiInstance.models.generateContent({
-            model: 'gemini-2.5-flash',
+            model,
             contents: {
                 parts: [
                     imagePart,
-                    { text: 'Analyze this image to identify the main subject. Provide the optimal bounding box for cropping, focusing on this subject. The bounding box coordinates should be percentages of the image dimensions. Return a JSON object with keys "x", "y", "width", and "height". Ensure the values are numbers between 0 and 100.' }
+                    { text: `Analyze this image to identify the main subject.${guidance} Provide up to 3 candidate bounding boxes for cropping, ranked from best to worst, each focusing on one subject and with a short label (at most 4 words) describing it. The bounding box coordinates should be percentages of the image dimensions. Return a JSON object with a "candidates" array whose items have keys "label", "x", "y", "width", and "height". Ensure the coordinate values are numbers between 0 and 100.` }
                 ]
             },
             config: {
+                abortSignal: signal,
                 responseMimeType: 'application/json',
                 responseSchema: {
                     type: Type.OBJECT,
                     properties: {
-                        x: { type: Type.NUMBER, description: 'The x-coordinate of the top-left corner as a percentage (0-100).' },
-                        y: { type: Type.NUMBER, description: 'The y-coordinate of the top-left corner as a percentage (0-100).' },
-                        width: { type: Type.NUMBER, description: 'The width of the crop area as a percentage (0-100).' },
-                        height: { type: Type.NUMBER, description: 'The height of the crop area as a percentage (0-100).' }
+                        candidates: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    label: { type: Type.STRING, description: 'A short description of the subject, at most 4 words.' },
+                                    x: { type: Type.NUMBER, description: 'The x-coordinate of the top-left corner as a percentage (0-100).' },
+                                    y: { type: Type.NUMBER, description: 'The y-coordinate of the top-left corner as a percentage (0-100).' },
+                                    width: { type: Type.NUMBER, description: 'The width of the crop area as a percentage (0-100).' },
+                                    height: { type: Type.NUMBER, description: 'The height of the crop area as a percentage (0-100).' }
+                                },
+                                required: ['label', 'x', 'y', 'width', 'height']
+                            }
+                        }
                     },
-                    required: ['x', 'y', 'width', 'height']
+                    required: ['candidates']
                 }
             }
         });
 
-        const text = response.text;
-        if (!text) return null;
+        text = response.text;
+    } catch (e) {
+        throw toSmartCropError(e);
+    }
+    if (!text) return [];
 
-        // Clean up response text to ensure valid JSON (remove markdown code blocks if present)
-        let jsonStr = text.trim();
-        const startIndex = jsonStr.indexOf('{');
-        const endIndex = jsonStr.lastIndexOf('}');
-        
-        if (startIndex !== -1 && endIndex !== -1) {
-            jsonStr = jsonStr.substring(startIndex, endIndex + 1);
-        } else {
-             console.error("No JSON object found in response:", text);
-             return null;
-        }
+    // Clean up response text to ensure valid JSON (remove markdown code blocks if present)
+    let jsonStr = text.trim();
+    const startIndex = jsonStr.indexOf('{');
+    const endIndex = jsonStr.lastIndexOf('}');
+    if (startIndex === -1 || endIndex === -1) {
+        console.error("No JSON object found in response:", text);
+        throw smartCropError('BAD_RESPONSE');
+    }
+    jsonStr = jsonStr.substring(startIndex, endIndex + 1);
 
-        const data = JSON.parse(jsonStr);
-        
-        if (data.x != null && data.y != null && data.width != null && data.height != null) {
-            return {
-                unit: '%',
-                x: Math.max(0, data.x),
-                y: Math.max(0, data.y),
-                width: Math.min(100 - Math.max(0, data.x), data.width),
-                height: Math.min(100 - Math.max(0, data.y), data.height),
-            };
-        }
+    let data: unknown;
+    try {
+        data = JSON.parse(jsonStr);
     } catch (e) {
         console.error("Failed to parse smart crop response:", e);
-        // Rethrow API key error so App.tsx can handle it specifically
-        if (e instanceof Error && e.message === "API_KEY_NOT_CONFIGURED") {
-             throw e;
-        }
-        return null;
+        throw smartCropError('BAD_RESPONSE');
+    }
+    if (!isRecord(data) || !Array.isArray(data.candidates)) throw smartCropError('BAD_RESPONSE');
+
+    return data.candidates
+        .filter(isCandidateData)
+        .slice(0, 3)
+        .map((c, index) => ({
+            label: typeof c.label === 'string' && c.label.trim() ? c.label.trim() : `Subject ${index + 1}`,
+            box: toPercentCrop(c),
+        }));
+}
+
+// One outpainting request. Failures throw the same codes as smart crop, so
+// it can go through requestWithRetries (see lib/aiSettings).
+export async function generateOutpaint(request: OutpaintRequest, apiKey: string, model: string, signal: AbortSignal): Promise<OutpaintResult> {
+    const aiInstance = getAiInstance(apiKey);
+    const { region } = request;
+
+    let response: GenerateContentResponse;
+    try {
+        response = await aiInstance.models.generateContent({
+            model,
+            contents: {
+                parts: [
+                    { inlineData: { data: request.image, mimeType: 'image/png' } },
+                    { text: `This ${request.width}x${request.height} image has a ${request.ratioLabel} aspect ratio. The photo occupies the rectangle from (${region.x}, ${region.y}) to (${region.x + region.width}, ${region.y + region.height}); everything outside it is a flat gray placeholder. Replace the gray placeholder by extending the photo outwards so the scene continues naturally, matching its perspective, lighting, colors and grain. Do not change the content inside the rectangle, and do not add borders, frames or text. Return only the completed image at the same size.` }
+                ]
+            },
+            config: {
+                abortSignal: signal,
+                responseModalities: [Modality.IMAGE],
+            }
+        });
+    } catch (e) {
+        throw toSmartCropError(e);
     }
 
-    return null;
-}
\ No newline at end of file
+    const parts = response.candidates?.[0]?.content?.parts ?? [];
+    const imagePart = parts.find(part => part.inlineData?.data);
+    if (!imagePart?.inlineData?.data) {
+        throw new Error("NO_IMAGE_RETURNED");
+    }
+    return {
+        data: imagePart.inlineData.data,
+        mimeType: imagePart.inlineData.mimeType ?? 'image/png',
+    };
+}
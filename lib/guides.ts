@@ -0,0 +1,29 @@
+// Composition guides and platform safe zones drawn over the editor and the
+// preview. They are DOM overlays only and never reach an export canvas.
+
+export type CompositionGuide = 'thirds' | 'golden' | 'center' | 'diagonals';
+export type SafeZone = 'stories' | 'youtube' | 'avatar';
+export type Guide = CompositionGuide | SafeZone;
+
+export const COMPOSITION_GUIDES: { value: CompositionGuide; label: string }[] = [
+  { value: 'thirds', label: 'Thirds' },
+  { value: 'golden', label: 'Golden' },
+  { value: 'center', label: 'Center' },
+  { value: 'diagonals', label: 'Diagonals' },
+];
+
+export const SAFE_ZONES: { value: SafeZone; label: string }[] = [
+  { value: 'stories', label: 'Stories bars' },
+  { value: 'youtube', label: 'YouTube timestamp' },
+  { value: 'avatar', label: 'Avatar circle' },
+];
+
+// 1 / φ: the golden lines sit at 38.2% and 61.8% of each side.
+export const GOLDEN_SECTION = 2 / (1 + Math.sqrt(5));
+
+// Fractions of the frame covered by platform UI. Stories and Reels put the
+// profile row in the top 250px and the reply bar in the bottom 340px of a
+// 1080x1920 frame; YouTube prints the video length in the bottom-right corner.
+export const STORIES_TOP_BAR = 250 / 1920;
+export const STORIES_BOTTOM_BAR = 340 / 1920;
+export const YOUTUBE_TIMESTAMP = { width: 0.2, height: 0.14 };
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { createHistory, filterHistory, recordEdit, redoEdit, undoEdit } from './history';
+
+describe('history', () => {
+  it('undoes and redoes in order', () => {
+    let history = recordEdit(createHistory<number>(), 1, null, 0);
+    history = recordEdit(history, 2, null, 10);
+
+    const first = undoEdit(history, 3)!;
+    expect(first.snapshot).toBe(2);
+    const second = undoEdit(first.history, 2)!;
+    expect(second.snapshot).toBe(1);
+    expect(undoEdit(second.history, 1)).toBeNull();
+
+    const redone = redoEdit(second.history, 1)!;
+    expect(redone.snapshot).toBe(2);
+    expect(redoEdit(redone.history, 2)!.snapshot).toBe(3);
+  });
+
+  it('merges edits with the same key in quick succession', () => {
+    let history = recordEdit(createHistory<number>(), 1, 'drag', 0);
+    history = recordEdit(history, 2, 'drag', 500);
+    history = recordEdit(history, 3, 'drag', 1400);
+    expect(history.past).toEqual([1]);
+
+    // The window runs from the last merged edit, and a pause ends it.
+    history = recordEdit(history, 4, 'drag', 2500);
+    expect(history.past).toEqual([1, 4]);
+  });
+
+  it('does not merge different keys or unkeyed edits', () => {
+    let history = recordEdit(createHistory<number>(), 1, 'a', 0);
+    history = recordEdit(history, 2, 'b', 1);
+    history = recordEdit(history, 3, null, 2);
+    history = recordEdit(history, 4, null, 3);
+    expect(history.past).toEqual([1, 2, 3, 4]);
+  });
+
+  it('clears redo on a new edit and after an undo stops merging', () => {
+    let history = recordEdit(createHistory<number>(), 1, 'drag', 0);
+    history = undoEdit(history, 2)!.history;
+    expect(history.future).toEqual([2]);
+    history = recordEdit(history, 1, 'drag', 10);
+    expect(history.future).toEqual([]);
+    expect(history.past).toEqual([1]);
+  });
+
+  it('keeps the latest 100 entries', () => {
+    let history = createHistory<number>();
+    for (let i = 0; i < 120; i++) history = recordEdit(history, i, null, i);
+    expect(history.past).toHaveLength(100);
+    expect(history.past[0]).toBe(20);
+  });
+
+  it('filters both stacks', () => {
+    let history = recordEdit(createHistory<number>(), 1, null, 0);
+    history = recordEdit(history, 2, null, 1);
+    history = undoEdit(history, 3)!.history;
+    const filtered = filterHistory(history, entry => entry !== 1 && entry !== 3);
+    expect(filtered.past).toEqual([]);
+    expect(filtered.future).toEqual([]);
+  });
+});
@@ -0,0 +1,47 @@
+// Undo/redo stacks. Each entry is a snapshot of the editable state taken just
+// before an edit. Edits recorded with the same merge key in quick succession
+// (the steps of one slider drag, a run of arrow-key nudges) share one entry.
+
+export interface History<T> {
+  past: T[];
+  future: T[];
+  lastKey: string | null;
+  lastTime: number;
+}
+
+const LIMIT = 100;
+const MERGE_WINDOW_MS = 1000;
+
+export const createHistory = <T>(): History<T> => ({ past: [], future: [], lastKey: null, lastTime: 0 });
+
+export function recordEdit<T>(history: History<T>, before: T, mergeKey: string | null = null, now = Date.now()): History<T> {
+  if (mergeKey && mergeKey === history.lastKey && now - history.lastTime < MERGE_WINDOW_MS) {
+    return { ...history, lastTime: now };
+  }
+  return { past: [...history.past, before].slice(-LIMIT), future: [], lastKey: mergeKey, lastTime: now };
+}
+
+// `current` is the state being left; it becomes the entry redo returns to.
+export function undoEdit<T>(history: History<T>, current: T): { history: History<T>; snapshot: T } | null {
+  const snapshot = history.past[history.past.length - 1];
+  if (snapshot === undefined) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, current], lastKey: null, lastTime: 0 },
+    snapshot,
+  };
+}
+
+export function redoEdit<T>(history: History<T>, current: T): { history: History<T>; snapshot: T } | null {
+  const snapshot = history.future[history.future.length - 1];
+  if (snapshot === undefined) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(0, -1), lastKey: null, lastTime: 0 },
+    snapshot,
+  };
+}
+
+export const filterHistory = <T>(history: History<T>, keep: (entry: T) => boolean): History<T> => ({
+  ...history,
+  past: history.past.filter(keep),
+  future: history.future.filter(keep),
+});
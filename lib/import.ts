@@ -0,0 +1,79 @@
+import { canvasToBlob } from './canvas';
+import { normalizeImageFile } from './decode';
+
+// Other ways into the upload pipeline besides drop and the file picker. Each
+// produces plain Files, so they go through the same type check as uploads.
+// Failures are thrown as Error codes and turned into messages by the caller.
+
+const extensionFor = (type: string) => (type.split('/')[1] ?? 'png').replace('jpeg', 'jpg').replace(/\+.*$/, '');
+
+// Image files on the clipboard. Screenshots arrive as a bare "image.png", so
+// they are given a name that says where they came from.
+export function getClipboardImages(data: DataTransfer): File[] {
+  return Array.from(data.items)
+    .filter(item => item.kind === 'file' && item.type.startsWith('image/'))
+    .map(item => item.getAsFile())
+    .filter((file): file is File => !!file)
+    .map((file, index) => new File(
+      [file],
+      `pasted-${Date.now()}${index > 0 ? `-${index + 1}` : ''}.${extensionFor(file.type)}`,
+      { type: file.type, lastModified: file.lastModified },
+    ));
+}
+
+export function parseImageUrl(input: string): URL | null {
+  try {
+    const url = new URL(input.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function getUrlFileName(url: URL): string {
+  const segment = url.pathname.split('/').pop() ?? '';
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+export async function fetchImageFile(input: string): Promise<File> {
+  const url = parseImageUrl(input);
+  if (!url) throw new Error('INVALID_URL');
+
+  let response: Response;
+  try {
+    response = await fetch(url, { mode: 'cors' });
+  } catch {
+    // A CORS rejection and an unreachable host look the same from here.
+    throw new Error('FETCH_BLOCKED');
+  }
+  if (!response.ok) throw new Error('HTTP_ERROR');
+
+  // The Content-Type isn't trusted either way: CDNs serve images as
+  // application/octet-stream and HEIC or TIFF often without a type at all,
+  // so the bytes decide.
+  const blob = await response.blob();
+  const name = getUrlFileName(url);
+  try {
+    const file = await normalizeImageFile(new File([blob], name || 'image', { type: blob.type.split(';')[0] }));
+    return name ? file : new File([file], `image.${extensionFor(file.type)}`, { type: file.type });
+  } catch (e) {
+    if (e instanceof Error && e.message === 'UNSUPPORTED_FORMAT') throw new Error('NOT_AN_IMAGE');
+    throw e;
+  }
+}
+
+// Grabs the current frame of a playing camera stream as a JPEG.
+export async function captureVideoFrame(video: HTMLVideoElement): Promise<File> {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || canvas.width === 0) throw new Error('CAMERA_NOT_READY');
+  ctx.drawImage(video, 0, 0);
+  const blob = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+  return new File([blob], `camera-${Date.now()}.jpg`, { type: 'image/jpeg' });
+}
@@ -0,0 +1,184 @@
+import type { PercentCrop } from 'react-image-crop';
+import { IDENTITY_TRANSFORM, type Transform, drawTransformed, getFrameSize } from './transform';
+
+// On-device smart crop. The image is downscaled, every pixel gets an
+// "interest" score from a few cheap heuristics, and candidate windows at the
+// requested aspect are ranked by how much of that interest they capture.
+// No network or API key is involved.
+
+export interface SaliencyMap {
+  width: number;
+  height: number;
+  // Summed-area table of the interest scores, (width + 1) x (height + 1).
+  integral: Float64Array;
+  total: number;
+  // The frame it was made from, in full pixels. The map's own size is
+  // rounded, so crops take their exact shape from this.
+  frameWidth: number;
+  frameHeight: number;
+}
+
+const ANALYSIS_SIZE = 160;
+const ENTROPY_CELL = 8;
+const WEIGHTS = { edge: 0.35, saliency: 0.3, skin: 0.2, entropy: 0.15 };
+const SCALES = [1, 0.9, 0.8, 0.7, 0.6];
+
+function normalize(values: Float32Array) {
+  let max = 0;
+  for (let i = 0; i < values.length; i++) if (values[i] > max) max = values[i];
+  if (max > 0) for (let i = 0; i < values.length; i++) values[i] /= max;
+}
+
+// Classic YCbCr skin range; loose, but good enough to pull crops towards
+// faces and people.
+function isSkin(r: number, g: number, b: number, luminance: number) {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return luminance > 40 && cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+}
+
+// Works on the transformed frame, so windows map straight onto crops.
+export function analyzeImage(image: HTMLImageElement, transform: Transform = IDENTITY_TRANSFORM): SaliencyMap {
+  const frame = getFrameSize(image.naturalWidth, image.naturalHeight, transform);
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(frame.width, frame.height));
+  const width = Math.max(1, Math.round(frame.width * scale));
+  const height = Math.max(1, Math.round(frame.height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not supported');
+  drawTransformed(ctx, image, transform, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const size = width * height;
+  const luminance = new Float32Array(size);
+  let meanR = 0, meanG = 0, meanB = 0;
+  for (let i = 0; i < size; i++) {
+    const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+    luminance[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+    meanR += r; meanG += g; meanB += b;
+  }
+  meanR /= size; meanG /= size; meanB /= size;
+
+  const edge = new Float32Array(size);
+  const saliency = new Float32Array(size);
+  const skin = new Float32Array(size);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const left = luminance[y * width + Math.max(0, x - 1)];
+      const right = luminance[y * width + Math.min(width - 1, x + 1)];
+      const up = luminance[Math.max(0, y - 1) * width + x];
+      const down = luminance[Math.min(height - 1, y + 1) * width + x];
+      edge[i] = Math.abs(right - left) + Math.abs(down - up);
+
+      const r = data[i * 4], g = data[i * 4 + 1], b = data[i * 4 + 2];
+      saliency[i] = Math.hypot(r - meanR, g - meanG, b - meanB);
+      skin[i] = isSkin(r, g, b, luminance[i]) ? 1 : 0;
+    }
+  }
+  normalize(edge);
+  normalize(saliency);
+
+  // Entropy of the luminance histogram per cell: textured, detailed areas
+  // score high, flat sky or walls score low.
+  const entropy = new Float32Array(size);
+  const histogram = new Uint32Array(16);
+  for (let cy = 0; cy < height; cy += ENTROPY_CELL) {
+    for (let cx = 0; cx < width; cx += ENTROPY_CELL) {
+      histogram.fill(0);
+      let count = 0;
+      for (let y = cy; y < Math.min(height, cy + ENTROPY_CELL); y++) {
+        for (let x = cx; x < Math.min(width, cx + ENTROPY_CELL); x++) {
+          histogram[Math.min(15, luminance[y * width + x] >> 4)]++;
+          count++;
+        }
+      }
+      let value = 0;
+      for (const bin of histogram) {
+        if (bin === 0) continue;
+        const p = bin / count;
+        value -= p * Math.log2(p);
+      }
+      for (let y = cy; y < Math.min(height, cy + ENTROPY_CELL); y++) {
+        for (let x = cx; x < Math.min(width, cx + ENTROPY_CELL); x++) {
+          entropy[y * width + x] = value / 4; // 16 bins -> at most 4 bits
+        }
+      }
+    }
+  }
+
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      rowSum += WEIGHTS.edge * edge[i] + WEIGHTS.saliency * saliency[i]
+        + WEIGHTS.skin * skin[i] + WEIGHTS.entropy * entropy[i];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+    }
+  }
+
+  return { width, height, integral, total: integral[integral.length - 1], frameWidth: frame.width, frameHeight: frame.height };
+}
+
+function sumRegion(map: SaliencyMap, x: number, y: number, w: number, h: number) {
+  const stride = map.width + 1;
+  return map.integral[(y + h) * stride + x + w]
+    - map.integral[y * stride + x + w]
+    - map.integral[(y + h) * stride + x]
+    + map.integral[y * stride + x];
+}
+
+// Picks the window at `aspect` (width / height, in image pixels) that best
+// balances capturing most of the image's interest against concentrating it.
+// Without an aspect lock (0) windows keep the image's own proportions.
+export function findBestCrop(map: SaliencyMap, requestedAspect: number): PercentCrop {
+  const { width, height } = map;
+  const aspect = requestedAspect > 0 ? requestedAspect : map.frameWidth / map.frameHeight;
+  const maxWidth = Math.min(width, height * aspect);
+  const maxHeight = maxWidth / aspect;
+  const step = Math.max(1, Math.round(Math.min(width, height) / 40));
+
+  let best = { x: 0, y: 0, w: width, h: height, score: -Infinity };
+  for (const scale of SCALES) {
+    const w = Math.max(1, Math.round(maxWidth * scale));
+    const h = Math.max(1, Math.round(maxHeight * scale));
+    const xs = positions(width - w, step);
+    const ys = positions(height - h, step);
+    for (const y of ys) {
+      for (const x of xs) {
+        const inside = sumRegion(map, x, y, w, h);
+        const coverage = map.total > 0 ? inside / map.total : 0;
+        const density = coverage / ((w * h) / (width * height));
+        const score = Math.sqrt(coverage * density);
+        if (score > best.score) best = { x, y, w, h, score };
+      }
+    }
+  }
+
+  // The window is in whole map pixels; the height is derived from the width
+  // so the crop has exactly the requested aspect on the full frame.
+  const frameAspect = map.frameWidth / map.frameHeight;
+  let cropWidth = (best.w / width) * 100;
+  let cropHeight = (cropWidth * frameAspect) / aspect;
+  if (cropHeight > 100) {
+    cropHeight = 100;
+    cropWidth = (100 * aspect) / frameAspect;
+  }
+  return {
+    unit: '%',
+    x: Math.min((best.x / width) * 100, 100 - cropWidth),
+    y: Math.min((best.y / height) * 100, 100 - cropHeight),
+    width: cropWidth,
+    height: cropHeight,
+  };
+}
+
+function positions(range: number, step: number): number[] {
+  const result: number[] = [];
+  for (let p = 0; p < range; p += step) result.push(p);
+  result.push(Math.max(0, range));
+  return result;
+}
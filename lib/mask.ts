@@ -0,0 +1,51 @@
+import { type RenderCanvas, get2dContext } from './surface';
+
+// Output shapes for avatars and cards. The mask is cut into the rendered
+// canvas, so the preview, copy and every export path share it; JPEG, which
+// has no alpha, gets the masked-off area filled with `background` instead.
+
+export type MaskShape = 'none' | 'circle' | 'rounded';
+
+export interface MaskOptions {
+  shape: MaskShape;
+  // 'rounded': corner radius in percent of the shorter side (0-50).
+  radius: number;
+  // Fill for the masked-off area in formats without transparency.
+  background: string;
+}
+
+export const DEFAULT_MASK_OPTIONS: MaskOptions = { shape: 'none', radius: 10, background: '#ffffff' };
+
+export const MAX_CORNER_RADIUS = 50;
+
+// A circle only makes sense on a square output.
+export const canUseCircle = (ratio: number) => ratio === 1;
+
+export function getMaskShape(options: MaskOptions, ratio: number): MaskShape {
+  if (options.shape === 'circle' && !canUseCircle(ratio)) return 'none';
+  if (options.shape === 'rounded' && options.radius <= 0) return 'none';
+  return options.shape;
+}
+
+// Clears everything outside the shape. Returns false when there is nothing
+// to mask.
+export function applyMask(canvas: RenderCanvas, options: MaskOptions, ratio: number): boolean {
+  const shape = getMaskShape(options, ratio);
+  const ctx = get2dContext(canvas);
+  if (shape === 'none' || !ctx) return false;
+
+  const { width, height } = canvas;
+  const shorter = Math.min(width, height);
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-in';
+  ctx.beginPath();
+  if (shape === 'circle') {
+    ctx.arc(width / 2, height / 2, shorter / 2, 0, Math.PI * 2);
+  } else {
+    const radius = (Math.min(options.radius, MAX_CORNER_RADIUS) / 100) * shorter;
+    ctx.roundRect(0, 0, width, height, radius);
+  }
+  ctx.fill();
+  ctx.restore();
+  return true;
+}
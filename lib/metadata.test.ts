@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_METADATA_OPTIONS, embedDensity, embedMetadata, keepsColorProfile, readMetadata } from './metadata';
+import { crc32 } from './zip';
+
+const ascii = (text: string) => [...text].map(char => char.charCodeAt(0));
+
+const segment = (marker: number, payload: number[]) =>
+  [0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload];
+
+const u16 = (value: number) => [value & 0xff, value >> 8];
+const u32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, value >>> 24];
+const entry = (tag: number, type: number, count: number, value: number[]) => [...u16(tag), ...u16(type), ...u32(count), ...value];
+
+// Little-endian TIFF: IFD0 with Orientation 6, an Artist and a GPS pointer,
+// and a GPS IFD with one tag.
+const TIFF = [
+  ...ascii('II'), ...u16(42), ...u32(8),
+  ...u16(3),
+  ...entry(0x0112, 3, 1, [6, 0, 0, 0]),
+  ...entry(0x013b, 2, 4, ascii('Ann\0')),
+  ...entry(0x8825, 4, 1, u32(50)),
+  ...u32(0),
+  ...u16(1),
+  ...entry(0x0001, 2, 2, ascii('N\0\0\0')),
+  ...u32(0),
+];
+
+const ICC = [1, 2, 3, 4, 5];
+
+const JFIF = segment(0xe0, [...ascii('JFIF\0'), 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+
+const jpeg = (...segments: number[][]) =>
+  new Blob([new Uint8Array([0xff, 0xd8, ...segments.flat(), 0xff, 0xd9])], { type: 'image/jpeg' });
+
+const CAMERA_JPEG = jpeg(
+  segment(0xe1, [...ascii('Exif\0\0'), ...TIFF]),
+  segment(0xe2, [...ascii('ICC_PROFILE\0'), 1, 1, ...ICC]),
+);
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+function pngChunk(type: string, data: number[]) {
+  const body = [...ascii(type), ...data];
+  const length = [data.length >>> 24, (data.length >> 16) & 0xff, (data.length >> 8) & 0xff, data.length & 0xff];
+  const crc = crc32(new Uint8Array(body));
+  return [...length, ...body, crc >>> 24, (crc >> 16) & 0xff, (crc >> 8) & 0xff, crc & 0xff];
+}
+
+const PNG_SIGNATURE = [0x89, ...ascii('PNG\r\n'), 0x1a, 0x0a];
+
+const png = (...chunks: number[][]) =>
+  new Blob([new Uint8Array([...PNG_SIGNATURE, ...pngChunk('IHDR', new Array(13).fill(0)), ...chunks.flat(), ...pngChunk('IEND', [])])], { type: 'image/png' });
+
+function readPngChunks(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { type: string; data: Uint8Array; crcValid: boolean }[] = [];
+  for (let offset = 8; offset + 12 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    const crc = view.getUint32(offset + 8 + length);
+    chunks.push({ type, data, crcValid: crc === crc32(bytes.subarray(offset + 4, offset + 8 + length)) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+describe('readMetadata', () => {
+  it('reads EXIF, GPS, the orientation and the ICC profile from a JPEG', async () => {
+    const metadata = (await readMetadata(CAMERA_JPEG))!;
+    expect(metadata.orientation).toBe(6);
+    expect(metadata.exif!.ifd0.map(e => e.tag)).toContain(0x013b);
+    expect(metadata.exif!.gps).toHaveLength(1);
+    expect([...metadata.icc!]).toEqual(ICC);
+  });
+
+  it('treats other files as having none', async () => {
+    expect(await readMetadata(png())).toBeNull();
+    expect(await readMetadata(jpeg(JFIF))).toBeNull();
+  });
+});
+
+describe('embedMetadata', () => {
+  it('writes what is kept after the JFIF header, without orientation or location', async () => {
+    const metadata = await readMetadata(CAMERA_JPEG);
+    const output = await embedMetadata(jpeg(JFIF), metadata, DEFAULT_METADATA_OPTIONS);
+    const bytes = await bytesOf(output);
+    expect([bytes[2], bytes[3]]).toEqual([0xff, 0xe0]);
+
+    const written = (await readMetadata(output))!;
+    // The pixels are exported upright, so the tag would turn them again.
+    expect(written.orientation).toBe(1);
+    expect(written.exif!.ifd0.map(e => e.tag)).toEqual([0x013b]);
+    expect(written.exif!.gps).toEqual([]);
+    expect([...written.icc!]).toEqual(ICC);
+  });
+
+  it('keeps the location when asked', async () => {
+    const metadata = await readMetadata(CAMERA_JPEG);
+    const output = await embedMetadata(jpeg(JFIF), metadata, { ...DEFAULT_METADATA_OPTIONS, location: true });
+    expect((await readMetadata(output))!.exif!.gps).toHaveLength(1);
+  });
+
+  it('leaves the file alone when nothing is kept', async () => {
+    const metadata = await readMetadata(CAMERA_JPEG);
+    const input = jpeg(JFIF);
+    expect(await embedMetadata(input, metadata, { ...DEFAULT_METADATA_OPTIONS, mode: 'strip' })).toBe(input);
+    const none = { ...DEFAULT_METADATA_OPTIONS, mode: 'select' as const, copyright: false, captureDate: false, colorProfile: false };
+    expect(await embedMetadata(input, metadata, none)).toBe(input);
+    expect(keepsColorProfile(metadata, none)).toBe(false);
+    expect(keepsColorProfile(metadata, DEFAULT_METADATA_OPTIONS)).toBe(true);
+  });
+
+  it('adds an eXIf chunk after IHDR in a PNG', async () => {
+    const metadata = await readMetadata(CAMERA_JPEG);
+    const output = await embedMetadata(png(), metadata, { ...DEFAULT_METADATA_OPTIONS, colorProfile: false, mode: 'select' });
+    const chunks = readPngChunks(await bytesOf(output));
+    expect(chunks.map(chunk => chunk.type)).toEqual(['IHDR', 'eXIf', 'IEND']);
+    expect(chunks.every(chunk => chunk.crcValid)).toBe(true);
+  });
+});
+
+describe('embedDensity', () => {
+  it('sets the density of an existing JFIF header', async () => {
+    const bytes = await bytesOf(await embedDensity(jpeg(JFIF), 300));
+    expect(bytes.length).toBe(JFIF.length + 4);
+    expect([...bytes.subarray(13, 18)]).toEqual([1, 1, 44, 1, 44]);
+  });
+
+  it('adds a JFIF header straight after SOI when there is none', async () => {
+    const input = CAMERA_JPEG;
+    const bytes = await bytesOf(await embedDensity(input, 72.4));
+    expect(bytes.length).toBe(input.size + 18);
+    expect([bytes[2], bytes[3]]).toEqual([0xff, 0xe0]);
+    expect(String.fromCharCode(...bytes.subarray(6, 11))).toBe('JFIF\0');
+    expect([...bytes.subarray(13, 18)]).toEqual([1, 0, 72, 0, 72]);
+    // The rest still reads back.
+    expect((await readMetadata(new Blob([bytes])))!.orientation).toBe(6);
+  });
+
+  it('replaces the pHYs chunk of a PNG', async () => {
+    const old = pngChunk('pHYs', [0, 0, 0, 1, 0, 0, 0, 1, 0]);
+    const chunks = readPngChunks(await bytesOf(await embedDensity(png(old), 300)));
+    expect(chunks.map(chunk => chunk.type)).toEqual(['IHDR', 'pHYs', 'IEND']);
+    const view = new DataView(chunks[1].data.buffer, chunks[1].data.byteOffset);
+    // 300 dpi in dots per metre, in metres.
+    expect(view.getUint32(0)).toBe(11811);
+    expect(view.getUint32(4)).toBe(11811);
+    expect(chunks[1].data[8]).toBe(1);
+    expect(chunks.every(chunk => chunk.crcValid)).toBe(true);
+  });
+
+  it('leaves other formats alone', async () => {
+    const webp = new Blob([new Uint8Array(12)], { type: 'image/webp' });
+    expect(await embedDensity(webp, 300)).toBe(webp);
+  });
+});
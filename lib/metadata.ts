@@ -0,0 +1,541 @@
+import { crc32 } from './zip';
+import { canvasToBlob } from './canvas';
+
+// Camera metadata. EXIF, XMP and the ICC profile are read from JPEG uploads,
+// and a filtered copy is written back into the exported JPEG, PNG or WebP
+// bytes, since the canvas encoders drop everything.
+
+export interface ExifEntry {
+  tag: number;
+  type: number;
+  count: number;
+  // The value bytes, in the byte order of the source file.
+  value: Uint8Array;
+}
+
+export interface ExifData {
+  littleEndian: boolean;
+  ifd0: ExifEntry[];
+  exif: ExifEntry[];
+  gps: ExifEntry[];
+}
+
+export interface ImageMetadata {
+  exif: ExifData | null;
+  icc: Uint8Array | null;
+  xmp: string | null;
+  // EXIF orientation, 1 (upright) to 8.
+  orientation: number;
+}
+
+export type MetadataMode = 'keep' | 'strip' | 'select';
+
+export interface MetadataOptions {
+  mode: MetadataMode;
+  // Only consulted in 'select' mode.
+  copyright: boolean;
+  captureDate: boolean;
+  colorProfile: boolean;
+  // GPS position; honoured in both 'keep' and 'select' mode.
+  location: boolean;
+}
+
+export const DEFAULT_METADATA_OPTIONS: MetadataOptions = {
+  mode: 'keep',
+  copyright: true,
+  captureDate: true,
+  colorProfile: true,
+  location: false,
+};
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const COPYRIGHT_TAGS = [0x013b /* Artist */, 0x8298 /* Copyright */];
+const DATE_TAGS = [
+  0x0132, // DateTime
+  0x9003, 0x9004, // DateTimeOriginal, DateTimeDigitized
+  0x9010, 0x9011, 0x9012, // OffsetTime*
+  0x9290, 0x9291, 0x9292, // SubSecTime*
+];
+// Tags that describe the original encoding or point at data we don't copy
+// (thumbnail, maker notes, interoperability IFD). They would be wrong in the
+// exported file.
+const DROPPED_TAGS = new Set([
+  0x0100, 0x0101, 0x0103, 0x0111, 0x0116, 0x0117, 0x0201, 0x0202,
+  TAG_ORIENTATION, TAG_EXIF_IFD, TAG_GPS_IFD,
+  0x927c, 0xa002, 0xa003, 0xa005,
+]);
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const EXIF_HEADER = 'Exif\0\0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+// A JPEG segment holds at most 65535 bytes including its length field.
+const MAX_SEGMENT_DATA = 65533;
+const MAX_ICC_CHUNK = MAX_SEGMENT_DATA - ICC_HEADER.length - 2;
+
+const encoder = new TextEncoder();
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+// --- Reading ---------------------------------------------------------------
+
+function readIfd(view: DataView, offset: number, littleEndian: boolean): ExifEntry[] {
+  if (offset + 2 > view.byteLength) return [];
+  const count = view.getUint16(offset, littleEndian);
+  const entries: ExifEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const valueCount = view.getUint32(entry + 4, littleEndian);
+    const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+    if (size === 0) continue;
+    const valueOffset = size <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+    if (valueOffset + size > view.byteLength) continue;
+    entries.push({
+      tag,
+      type,
+      count: valueCount,
+      value: new Uint8Array(view.buffer.slice(view.byteOffset + valueOffset, view.byteOffset + valueOffset + size)),
+    });
+  }
+  return entries;
+}
+
+function parseTiff(tiff: Uint8Array): ExifData | null {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  if (tiff.length < 8) return null;
+  const littleEndian = startsWith(tiff, 0, 'II');
+  if (!littleEndian && !startsWith(tiff, 0, 'MM')) return null;
+  if (view.getUint16(2, littleEndian) !== 42) return null;
+
+  const ifd0 = readIfd(view, view.getUint32(4, littleEndian), littleEndian);
+  const pointer = (tag: number) => {
+    const entry = ifd0.find(e => e.tag === tag);
+    return entry && entry.value.length === 4
+      ? new DataView(entry.value.buffer).getUint32(0, littleEndian)
+      : null;
+  };
+  const exifOffset = pointer(TAG_EXIF_IFD);
+  const gpsOffset = pointer(TAG_GPS_IFD);
+  return {
+    littleEndian,
+    ifd0,
+    exif: exifOffset ? readIfd(view, exifOffset, littleEndian) : [],
+    gps: gpsOffset ? readIfd(view, gpsOffset, littleEndian) : [],
+  };
+}
+
+function getOrientation(exif: ExifData | null): number {
+  const entry = exif?.ifd0.find(e => e.tag === TAG_ORIENTATION);
+  if (!entry || entry.value.length < 2) return 1;
+  const value = new DataView(entry.value.buffer).getUint16(0, exif!.littleEndian);
+  return value >= 1 && value <= 8 ? value : 1;
+}
+
+// Only JPEG uploads are inspected; other formats rarely carry camera data
+// and are treated as having none.
+export async function readMetadata(file: Blob): Promise<ImageMetadata | null> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  let exif: ExifData | null = null;
+  let xmp: string | null = null;
+  const iccChunks: Uint8Array[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan: the metadata segments all come before the image data.
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const data = offset + 4;
+    const end = offset + 2 + length;
+    if (marker === 0xe1 && startsWith(bytes, data, EXIF_HEADER)) {
+      exif = parseTiff(bytes.subarray(data + EXIF_HEADER.length, end));
+    } else if (marker === 0xe1 && startsWith(bytes, data, XMP_HEADER)) {
+      xmp = new TextDecoder().decode(bytes.subarray(data + XMP_HEADER.length, end));
+    } else if (marker === 0xe2 && startsWith(bytes, data, ICC_HEADER)) {
+      const sequence = bytes[data + ICC_HEADER.length];
+      iccChunks[sequence - 1] = bytes.slice(data + ICC_HEADER.length + 2, end);
+    }
+    offset = end;
+  }
+
+  const icc = iccChunks.length > 0 && iccChunks.every(Boolean) ? concat(iccChunks) : null;
+  if (!exif && !xmp && !icc) return null;
+  return { exif, icc, xmp, orientation: getOrientation(exif) };
+}
+
+export const hasMetadata = (metadata: ImageMetadata | null) =>
+  !!metadata && (!!metadata.exif || !!metadata.icc || !!metadata.xmp);
+
+// --- Orientation and colour ------------------------------------------------
+
+// The editor and exports work from the original bytes: <img> and
+// createImageBitmap with `imageOrientation: 'from-image'` apply the EXIF
+// orientation as they decode, so nothing is re-encoded on the way in.
+
+// An upright JPEG copy, for services that may ignore the tag (the AI smart
+// crop upload). It is lossy, so exports never use it. The colour values are
+// copied unconverted and the ICC profile is carried over.
+export async function applyOrientation(file: File, metadata: ImageMetadata | null): Promise<File> {
+  if (!metadata || metadata.orientation === 1) return file;
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image', colorSpaceConversion: 'none' });
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+    let blob = await canvasToBlob(canvas, 'image/jpeg', 0.95);
+    if (metadata.icc) blob = await embedJpeg(blob, { exif: null, icc: metadata.icc, xmp: null });
+    return new File([blob], file.name, { type: 'image/jpeg', lastModified: file.lastModified });
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Decodes upright per the EXIF orientation. The caller closes the bitmap
+// when done.
+export function loadOrientedImage(file: Blob): Promise<ImageBitmap> {
+  return createImageBitmap(file, { imageOrientation: 'from-image' });
+}
+
+// The canvas converts images into sRGB as it draws them. When the source's
+// own profile is written back into the export, the pixels have to be the
+// unconverted ones, so this decodes them without colour management. The
+// caller closes the bitmap when done.
+export function loadUnmanagedImage(file: Blob): Promise<ImageBitmap> {
+  return createImageBitmap(file, { imageOrientation: 'from-image', colorSpaceConversion: 'none' });
+}
+
+// --- Filtering -------------------------------------------------------------
+
+interface OutputMetadata {
+  exif: ExifData | null;
+  icc: Uint8Array | null;
+  xmp: string | null;
+}
+
+// Removes GPS properties from an XMP packet, in both attribute and element form.
+const stripXmpLocation = (xmp: string) =>
+  xmp
+    .replace(/\s+exif:GPS\w+="[^"]*"/g, '')
+    .replace(/<exif:GPS(\w+)[^>]*>[\s\S]*?<\/exif:GPS\1>/g, '');
+
+export function selectMetadata(metadata: ImageMetadata | null, options: MetadataOptions): OutputMetadata | null {
+  if (!metadata || options.mode === 'strip') return null;
+  const keepAll = options.mode === 'keep';
+  const keepTag = (tag: number) =>
+    !DROPPED_TAGS.has(tag) && (
+      keepAll
+      || (options.copyright && COPYRIGHT_TAGS.includes(tag))
+      || (options.captureDate && DATE_TAGS.includes(tag))
+    );
+
+  let exif: ExifData | null = null;
+  if (metadata.exif) {
+    exif = {
+      littleEndian: metadata.exif.littleEndian,
+      ifd0: metadata.exif.ifd0.filter(e => keepTag(e.tag)),
+      exif: metadata.exif.exif.filter(e => keepTag(e.tag)),
+      gps: options.location ? [...metadata.exif.gps] : [],
+    };
+    if (exif.ifd0.length + exif.exif.length + exif.gps.length === 0) exif = null;
+  }
+
+  // XMP can't be filtered field by field reliably, so it is only carried
+  // over when everything is kept.
+  const xmp = keepAll && metadata.xmp
+    ? (options.location ? metadata.xmp : stripXmpLocation(metadata.xmp))
+    : null;
+  const icc = keepAll || options.colorProfile ? metadata.icc : null;
+  return exif || xmp || icc ? { exif, icc, xmp } : null;
+}
+
+export const keepsColorProfile = (metadata: ImageMetadata | null, options: MetadataOptions) =>
+  !!selectMetadata(metadata, options)?.icc;
+
+// --- Writing ---------------------------------------------------------------
+
+function writeTiff(exif: ExifData): Uint8Array {
+  const { littleEndian } = exif;
+  const pointerEntry = (tag: number): ExifEntry => ({ tag, type: 4, count: 1, value: new Uint8Array(4) });
+  const ifd0 = [...exif.ifd0];
+  if (exif.exif.length > 0) ifd0.push(pointerEntry(TAG_EXIF_IFD));
+  if (exif.gps.length > 0) ifd0.push(pointerEntry(TAG_GPS_IFD));
+  const ifds = [ifd0, exif.exif, exif.gps].filter(ifd => ifd.length > 0);
+  ifds.forEach(ifd => ifd.sort((a, b) => a.tag - b.tag));
+
+  const pad = (size: number) => size + (size % 2);
+  const ifdSize = (ifd: ExifEntry[]) =>
+    2 + ifd.length * 12 + 4 + ifd.reduce((sum, e) => sum + (e.value.length > 4 ? pad(e.value.length) : 0), 0);
+  const offsets: number[] = [];
+  let total = 8;
+  for (const ifd of ifds) {
+    offsets.push(total);
+    total += ifdSize(ifd);
+  }
+
+  const bytes = new Uint8Array(total);
+  const view = new DataView(bytes.buffer);
+  bytes.set(encoder.encode(littleEndian ? 'II' : 'MM'));
+  view.setUint16(2, 42, littleEndian);
+  view.setUint32(4, 8, littleEndian);
+
+  const setPointer = (tag: number, ifd: ExifEntry[]) => {
+    const entry = ifd0.find(e => e.tag === tag);
+    const index = ifds.indexOf(ifd);
+    if (entry && index >= 0) new DataView(entry.value.buffer).setUint32(0, offsets[index], littleEndian);
+  };
+  setPointer(TAG_EXIF_IFD, exif.exif);
+  setPointer(TAG_GPS_IFD, exif.gps);
+
+  ifds.forEach((ifd, index) => {
+    const start = offsets[index];
+    let data = start + 2 + ifd.length * 12 + 4;
+    view.setUint16(start, ifd.length, littleEndian);
+    ifd.forEach((entry, i) => {
+      const at = start + 2 + i * 12;
+      view.setUint16(at, entry.tag, littleEndian);
+      view.setUint16(at + 2, entry.type, littleEndian);
+      view.setUint32(at + 4, entry.count, littleEndian);
+      if (entry.value.length <= 4) {
+        bytes.set(entry.value, at + 8);
+      } else {
+        view.setUint32(at + 8, data, littleEndian);
+        bytes.set(entry.value, data);
+        data += pad(entry.value.length);
+      }
+    });
+    // No next IFD: the thumbnail IFD is never copied.
+    view.setUint32(start + 2 + ifd.length * 12, 0, littleEndian);
+  });
+  return bytes;
+}
+
+function jpegSegment(marker: number, header: string, payload: Uint8Array): Uint8Array | null {
+  const data = concat([encoder.encode(header), payload]);
+  if (data.length > MAX_SEGMENT_DATA) return null;
+  return concat([new Uint8Array([0xff, marker, (data.length + 2) >> 8, (data.length + 2) & 0xff]), data]);
+}
+
+async function embedJpeg(blob: Blob, metadata: OutputMetadata): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const segments: Uint8Array[] = [];
+  if (metadata.exif) {
+    const segment = jpegSegment(0xe1, EXIF_HEADER, writeTiff(metadata.exif));
+    if (segment) segments.push(segment);
+  }
+  if (metadata.xmp) {
+    const segment = jpegSegment(0xe1, XMP_HEADER, encoder.encode(metadata.xmp));
+    if (segment) segments.push(segment);
+  }
+  if (metadata.icc) {
+    const count = Math.ceil(metadata.icc.length / MAX_ICC_CHUNK);
+    for (let i = 0; i < count; i++) {
+      const chunk = metadata.icc.subarray(i * MAX_ICC_CHUNK, (i + 1) * MAX_ICC_CHUNK);
+      segments.push(jpegSegment(0xe2, ICC_HEADER, concat([new Uint8Array([i + 1, count]), chunk]))!);
+    }
+  }
+
+  // Insert after SOI and the encoder's JFIF header, which must stay first.
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  return new Blob([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)], { type: 'image/jpeg' });
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(encoder.encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function embedPng(blob: Blob, metadata: OutputMetadata): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const chunks: Uint8Array[] = [];
+  if (metadata.icc) {
+    chunks.push(pngChunk('iCCP', concat([encoder.encode('ICC Profile\0\0'), await deflate(metadata.icc)])));
+  }
+  if (metadata.exif) chunks.push(pngChunk('eXIf', writeTiff(metadata.exif)));
+  if (metadata.xmp) {
+    chunks.push(pngChunk('iTXt', concat([encoder.encode('XML:com.adobe.xmp\0\0\0\0\0'), encoder.encode(metadata.xmp)])));
+  }
+
+  // Signature (8) + IHDR (25); the new chunks go straight after IHDR. An
+  // sRGB chunk from the encoder would contradict an embedded profile.
+  const parts: Uint8Array[] = [bytes.subarray(0, 33), ...chunks];
+  const view = new DataView(bytes.buffer);
+  let offset = 33;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (!(metadata.icc && startsWith(bytes, offset + 4, 'sRGB'))) parts.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  return new Blob(parts, { type: 'image/png' });
+}
+
+function webpChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+  chunk.set(encoder.encode(type));
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+async function embedWebp(blob: Blob, metadata: OutputMetadata): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  let width = 0;
+  let height = 0;
+  let alpha = false;
+  const imageChunks: Uint8Array[] = [];
+
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const length = view.getUint32(offset + 4, true);
+    const data = offset + 8;
+    const end = data + length + (length % 2);
+    if (type === 'VP8X') {
+      alpha = (bytes[data] & 0x10) !== 0;
+      width = (view.getUint32(data + 4, true) & 0xffffff) + 1;
+      height = (view.getUint32(data + 7, true) & 0xffffff) + 1;
+    } else if (type === 'VP8 ') {
+      width = width || (view.getUint16(data + 6, true) & 0x3fff);
+      height = height || (view.getUint16(data + 8, true) & 0x3fff);
+    } else if (type === 'VP8L') {
+      const bits = view.getUint32(data + 1, true);
+      width = width || (bits & 0x3fff) + 1;
+      height = height || ((bits >> 14) & 0x3fff) + 1;
+      alpha = alpha || ((bits >> 28) & 1) === 1;
+    } else if (type === 'ALPH') {
+      alpha = true;
+    }
+    if (type !== 'VP8X' && type !== 'ICCP' && type !== 'EXIF' && type !== 'XMP ') {
+      imageChunks.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  // Metadata needs the extended format, whose VP8X header carries the
+  // canvas size and a flag for each optional chunk.
+  const header = new Uint8Array(10);
+  header[0] = (metadata.icc ? 0x20 : 0) | (alpha ? 0x10 : 0) | (metadata.exif ? 0x08 : 0) | (metadata.xmp ? 0x04 : 0);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint16(4, (width - 1) & 0xffff, true);
+  header[6] = ((width - 1) >> 16) & 0xff;
+  headerView.setUint16(7, (height - 1) & 0xffff, true);
+  header[9] = ((height - 1) >> 16) & 0xff;
+
+  const chunks = [
+    webpChunk('VP8X', header),
+    ...(metadata.icc ? [webpChunk('ICCP', metadata.icc)] : []),
+    ...imageChunks,
+    ...(metadata.exif ? [webpChunk('EXIF', writeTiff(metadata.exif))] : []),
+    ...(metadata.xmp ? [webpChunk('XMP ', encoder.encode(metadata.xmp))] : []),
+  ];
+  const body = concat(chunks);
+  const riff = new Uint8Array(12);
+  riff.set(encoder.encode('RIFF'));
+  new DataView(riff.buffer).setUint32(4, body.length + 4, true);
+  riff.set(encoder.encode('WEBP'), 8);
+  return new Blob([riff, body], { type: 'image/webp' });
+}
+
+// Writes the metadata `options` allow into an encoded export. Formats the
+// browser produced something unexpected for are returned untouched.
+export async function embedMetadata(blob: Blob, metadata: ImageMetadata | null, options: MetadataOptions): Promise<Blob> {
+  const selected = selectMetadata(metadata, options);
+  if (!selected) return blob;
+  switch (blob.type) {
+    case 'image/jpeg': return embedJpeg(blob, selected);
+    case 'image/png': return embedPng(blob, selected);
+    case 'image/webp': return embedWebp(blob, selected);
+    default: return blob;
+  }
+}
+
+// --- Print resolution ------------------------------------------------------
+
+// Records the print resolution: JPEG's JFIF density (the header is added if
+// the encoder left it out) or PNG's pHYs chunk. The pixels are untouched.
+export async function embedDensity(blob: Blob, dpi: number): Promise<Blob> {
+  const density = Math.max(1, Math.min(0xffff, Math.round(dpi)));
+  switch (blob.type) {
+    case 'image/jpeg': return setJfifDensity(blob, density);
+    case 'image/png': return setPngDensity(blob, density);
+    default: return blob;
+  }
+}
+
+async function setJfifDensity(blob: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (bytes[2] === 0xff && bytes[3] === 0xe0 && startsWith(bytes, 6, 'JFIF\0')) {
+    const copy = bytes.slice();
+    const view = new DataView(copy.buffer);
+    // Units (1 = dots per inch), then the X and Y density.
+    copy[13] = 1;
+    view.setUint16(14, dpi);
+    view.setUint16(16, dpi);
+    return new Blob([copy], { type: 'image/jpeg' });
+  }
+  const app0 = new Uint8Array(18);
+  const view = new DataView(app0.buffer);
+  app0.set([0xff, 0xe0, 0, 16]);
+  app0.set(encoder.encode('JFIF\0'), 4);
+  app0.set([1, 2, 1], 9);
+  view.setUint16(12, dpi);
+  view.setUint16(14, dpi);
+  // JFIF has to come straight after SOI.
+  return new Blob([bytes.subarray(0, 2), app0, bytes.subarray(2)], { type: 'image/jpeg' });
+}
+
+async function setPngDensity(blob: Blob, dpi: number): Promise<Blob> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const data = new Uint8Array(9);
+  const dataView = new DataView(data.buffer);
+  const perMetre = Math.round(dpi / 0.0254);
+  dataView.setUint32(0, perMetre);
+  dataView.setUint32(4, perMetre);
+  data[8] = 1;
+
+  // Straight after IHDR, replacing any pHYs the encoder wrote.
+  const parts: Uint8Array[] = [bytes.subarray(0, 33), pngChunk('pHYs', data)];
+  const view = new DataView(bytes.buffer);
+  let offset = 33;
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset);
+    if (!startsWith(bytes, offset + 4, 'pHYs')) parts.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  return new Blob(parts, { type: 'image/png' });
+}
@@ -0,0 +1,76 @@
+import type { SmartCropCandidate } from '../types';
+import { type SmartCropProvider, isSmartCropErrorCode, smartCropError, toPercentCrop } from './smartCrop';
+
+// A provider that needs no network or key, so the whole smart crop flow
+// (candidates, the overlay, retries, errors) can be tried offline. Its boxes
+// are derived from the image bytes: the same image always gets the same
+// answer. An instruction of "fail:<code>", e.g. "fail:QUOTA_EXCEEDED", makes
+// it fail with that error instead.
+
+const RESPONSE_DELAY_MS = 400;
+
+const LABELS = ['Main subject', 'Left detail', 'Right detail'];
+
+// FNV-1a over the bytes, sampled so large files stay quick.
+function hashBytes(bytes: Uint8Array): number {
+  let hash = 0x811c9dc5;
+  const step = Math.max(1, Math.floor(bytes.length / 65536));
+  for (let i = 0; i < bytes.length; i += step) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// A small deterministic sequence of numbers in [0, 1) from the hash.
+function* sequence(seed: number) {
+  let state = seed || 1;
+  for (;;) {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    yield (state >>> 0) / 2 ** 32;
+  }
+}
+
+function getCandidates(seed: number): SmartCropCandidate[] {
+  const random = sequence(seed);
+  const next = () => random.next().value as number;
+  // The first box is large and near the centre, the others smaller and
+  // towards either side.
+  return LABELS.map((label, index) => {
+    const width = index === 0 ? 40 + next() * 30 : 20 + next() * 20;
+    const height = index === 0 ? 40 + next() * 30 : 25 + next() * 25;
+    const centerX = index === 0 ? 40 + next() * 20 : index === 1 ? 15 + next() * 20 : 65 + next() * 20;
+    const centerY = 30 + next() * 40;
+    return {
+      label,
+      box: toPercentCrop({
+        x: Math.max(0, centerX - width / 2),
+        y: Math.max(0, centerY - height / 2),
+        width,
+        height,
+      }),
+    };
+  });
+}
+
+export function createMockProvider(delayMs = RESPONSE_DELAY_MS): SmartCropProvider {
+  return {
+    id: 'mock',
+    async findSubjects(image, instruction, signal) {
+      const seed = hashBytes(new Uint8Array(await image.arrayBuffer()));
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, delayMs);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(smartCropError('CANCELLED'));
+        }, { once: true });
+      });
+      // An unknown code is an ordinary instruction.
+      const code = /^fail:(\w+)$/i.exec(instruction)?.[1].toUpperCase();
+      if (code && isSmartCropErrorCode(code)) throw smartCropError(code);
+      return getCandidates(seed);
+    },
+  };
+}
@@ -0,0 +1,96 @@
+import { loadImage } from './canvas';
+import { getFitLayout } from './fit';
+import { type Transform, drawTransformed } from './transform';
+
+export interface OutpaintRequest {
+  // Base64 PNG of the target canvas with the original placed in it and the
+  // area to generate left blank.
+  image: string;
+  width: number;
+  height: number;
+  // Where the original sits inside the canvas, in the same pixels.
+  region: { x: number; y: number; width: number; height: number };
+  ratioLabel: string;
+}
+
+export interface OutpaintResult {
+  data: string;
+  mimeType: string;
+}
+
+// The model call is injected so the flow can run against a stub offline.
+export type OutpaintModel = (request: OutpaintRequest) => Promise<OutpaintResult>;
+
+// Long edge of the image sent to the model; the result is scaled back up.
+const REQUEST_SIZE = 1024;
+const BLANK_COLOR = '#808080';
+
+// Extends the transformed image to `ratio` by generating the missing regions,
+// then composites the untouched original over the generated canvas at full
+// resolution. Resolves to a canvas the size of the fit-mode output.
+export async function extendImage(
+  image: HTMLImageElement,
+  ratio: { label: string; value: number },
+  transform: Transform,
+  model: OutpaintModel,
+): Promise<HTMLCanvasElement> {
+  const layout = getFitLayout(image.naturalWidth, image.naturalHeight, ratio.value, transform);
+  if (layout.width - layout.imageWidth < 1 && layout.height - layout.imageHeight < 1) {
+    throw new Error('NOTHING_TO_EXTEND');
+  }
+
+  const scale = Math.min(1, REQUEST_SIZE / Math.max(layout.width, layout.height));
+  const request = document.createElement('canvas');
+  request.width = Math.round(layout.width * scale);
+  request.height = Math.round(layout.height * scale);
+  const region = {
+    width: Math.round(layout.imageWidth * scale),
+    height: Math.round(layout.imageHeight * scale),
+    x: 0,
+    y: 0,
+  };
+  region.x = Math.round((request.width - region.width) / 2);
+  region.y = Math.round((request.height - region.height) / 2);
+  drawInto(request, image, transform, region, BLANK_COLOR);
+
+  const result = await model({
+    image: request.toDataURL('image/png').split(',')[1],
+    width: request.width,
+    height: request.height,
+    region,
+    ratioLabel: ratio.label,
+  });
+  const generated = await loadImage(`data:${result.mimeType};base64,${result.data}`);
+
+  const output = document.createElement('canvas');
+  output.width = layout.width;
+  output.height = layout.height;
+  const ctx = output.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(generated, 0, 0, layout.width, layout.height);
+  // The original pixels always win over whatever the model produced there.
+  drawInto(output, image, transform, {
+    x: Math.round((layout.width - layout.imageWidth) / 2),
+    y: Math.round((layout.height - layout.imageHeight) / 2),
+    width: layout.imageWidth,
+    height: layout.imageHeight,
+  });
+  return output;
+}
+
+function drawInto(
+  canvas: HTMLCanvasElement,
+  image: HTMLImageElement,
+  transform: Transform,
+  region: OutpaintRequest['region'],
+  background?: string,
+) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  drawTransformed(ctx, image, transform, region.x, region.y, region.width, region.height);
+}
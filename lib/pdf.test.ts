@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { type PdfPage, createPdf } from './pdf';
+
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x01, 0x02, 0xff, 0xd9]);
+
+const page = (changes: Partial<PdfPage> = {}): PdfPage => ({
+  jpeg: new Blob([JPEG], { type: 'image/jpeg' }),
+  pixelWidth: 1200,
+  pixelHeight: 1800,
+  width: 4,
+  height: 6,
+  bleed: 0,
+  cropMarks: false,
+  ...changes,
+});
+
+// Latin-1 keeps one character per byte, so string offsets are byte offsets.
+const read = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return { bytes, text: new TextDecoder('latin1').decode(bytes) };
+};
+
+const box = (text: string, name: string) =>
+  new RegExp(`/${name} \\[([^\\]]+)\\]`).exec(text)![1].split(' ').map(Number);
+
+describe('createPdf', () => {
+  it('writes a page at the trim size in points', async () => {
+    const pdf = await createPdf(page());
+    expect(pdf.type).toBe('application/pdf');
+    const { text } = await read(pdf);
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(box(text, 'MediaBox')).toEqual([0, 0, 288, 432]);
+    expect(box(text, 'TrimBox')).toEqual([0, 0, 288, 432]);
+    expect(text).toContain('/Width 1200 /Height 1800');
+    expect(text).toContain('/Filter /DCTDecode');
+  });
+
+  it('embeds the JPEG bytes unchanged', async () => {
+    const { bytes, text } = await read(await createPdf(page()));
+    const start = text.indexOf('stream\n', text.indexOf('/DCTDecode')) + 'stream\n'.length;
+    expect([...bytes.subarray(start, start + JPEG.length)]).toEqual([...JPEG]);
+    expect(text).toContain(`/Length ${JPEG.length}`);
+  });
+
+  it('points the cross-reference table at each object', async () => {
+    const { text } = await read(await createPdf(page({ bleed: 0.125, cropMarks: true })));
+    const xref = Number(/startxref\n(\d+)/.exec(text)![1]);
+    expect(text.startsWith('xref\n', xref)).toBe(true);
+    const offsets = [...text.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    expect(offsets).toHaveLength(5);
+    offsets.forEach((offset, index) => expect(text.startsWith(`${index + 1} 0 obj\n`, offset)).toBe(true));
+  });
+
+  it('adds the bleed around the trim and room for crop marks', async () => {
+    const { text } = await read(await createPdf(page({ bleed: 0.125, cropMarks: true })));
+    // Bleed plus the marks' offset and length on every side.
+    const margin = (0.125 + 0.125 + 0.25) * 72;
+    expect(box(text, 'MediaBox')).toEqual([0, 0, 288 + 2 * margin, 432 + 2 * margin]);
+    expect(box(text, 'TrimBox')).toEqual([margin, margin, margin + 288, margin + 432]);
+    expect(box(text, 'BleedBox')).toEqual([margin - 9, margin - 9, margin + 297, margin + 441]);
+    // Two marks at each corner.
+    expect(text.match(/ l S/g)).toHaveLength(8);
+  });
+
+  it('leaves out crop marks unless asked', async () => {
+    const { text } = await read(await createPdf(page({ bleed: 0.125 })));
+    expect(text).not.toContain(' l S');
+    expect(box(text, 'MediaBox')).toEqual([0, 0, 306, 450]);
+  });
+});
@@ -0,0 +1,109 @@
+// A minimal single-page PDF writer for print exports: one JPEG placed at an
+// exact physical size, with optional bleed and crop marks. The JPEG is
+// embedded as it is (DCTDecode), so nothing is re-encoded.
+
+const POINTS_PER_INCH = 72;
+
+// Crop marks: how far they stay from the trim, and how long they are.
+const MARK_OFFSET_IN = 0.125;
+const MARK_LENGTH_IN = 0.25;
+
+export interface PdfPage {
+  // The JPEG covering the trim plus the bleed.
+  jpeg: Blob;
+  pixelWidth: number;
+  pixelHeight: number;
+  // Trim size and bleed, in inches.
+  width: number;
+  height: number;
+  bleed: number;
+  cropMarks: boolean;
+}
+
+const encoder = new TextEncoder();
+
+const format = (value: number) => String(Number(value.toFixed(3)));
+
+export async function createPdf(page: PdfPage): Promise<Blob> {
+  // The marks need room outside the bleed.
+  const margin = page.bleed + (page.cropMarks ? MARK_OFFSET_IN + MARK_LENGTH_IN : 0);
+  const pageWidth = (page.width + 2 * margin) * POINTS_PER_INCH;
+  const pageHeight = (page.height + 2 * margin) * POINTS_PER_INCH;
+  const trim = {
+    x: margin * POINTS_PER_INCH,
+    y: margin * POINTS_PER_INCH,
+    width: page.width * POINTS_PER_INCH,
+    height: page.height * POINTS_PER_INCH,
+  };
+  const bleed = page.bleed * POINTS_PER_INCH;
+  const bleedBox = [trim.x - bleed, trim.y - bleed, trim.x + trim.width + bleed, trim.y + trim.height + bleed];
+  const box = (values: number[]) => `[${values.map(format).join(' ')}]`;
+
+  const content = [
+    'q',
+    `${format(trim.width + 2 * bleed)} 0 0 ${format(trim.height + 2 * bleed)} ${format(bleedBox[0])} ${format(bleedBox[1])} cm`,
+    '/Im0 Do',
+    'Q',
+  ];
+  if (page.cropMarks) {
+    const offset = (page.bleed + MARK_OFFSET_IN) * POINTS_PER_INCH;
+    const length = MARK_LENGTH_IN * POINTS_PER_INCH;
+    const left = trim.x;
+    const right = trim.x + trim.width;
+    const bottom = trim.y;
+    const top = trim.y + trim.height;
+    content.push('q', '0 0 0 RG', '0.25 w');
+    for (const x of [left, right]) {
+      for (const y of [bottom, top]) {
+        // A horizontal and a vertical mark in line with each trim edge,
+        // pointing away from the page.
+        const dx = x === left ? -1 : 1;
+        const dy = y === bottom ? -1 : 1;
+        content.push(`${format(x + dx * offset)} ${format(y)} m ${format(x + dx * (offset + length))} ${format(y)} l S`);
+        content.push(`${format(x)} ${format(y + dy * offset)} m ${format(x)} ${format(y + dy * (offset + length))} l S`);
+      }
+    }
+    content.push('Q');
+  }
+  const contentBytes = encoder.encode(content.join('\n'));
+  const jpeg = new Uint8Array(await page.jpeg.arrayBuffer());
+
+  const objects: (string | Uint8Array)[][] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [
+      `<< /Type /Page /Parent 2 0 R /MediaBox ${box([0, 0, pageWidth, pageHeight])}`
+        + ` /BleedBox ${box(bleedBox)} /TrimBox ${box([trim.x, trim.y, trim.x + trim.width, trim.y + trim.height])}`
+        + ' /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>',
+    ],
+    [
+      `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight}`
+        + ` /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`,
+      jpeg,
+      '\nendstream',
+    ],
+    [`<< /Length ${contentBytes.length} >>\nstream\n`, contentBytes, '\nendstream'],
+  ];
+
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+  // The binary comment marks the file as binary for transfer tools.
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(length);
+    write(`${index + 1} 0 obj\n`);
+    object.forEach(write);
+    write('\nendobj\n');
+  });
+  const xref = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+  return new Blob(parts, { type: 'application/pdf' });
+}
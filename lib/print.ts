@@ -0,0 +1,82 @@
+import type { PrintSize, Ratio } from '../types';
+import { type RenderCanvas, createCanvas, get2dContext } from './surface';
+
+// Print presets and resolution. A print ratio carries its trim size, so the
+// effective DPI is simply the output's pixels over the paper's inches.
+
+// Below this, prints start to look soft at normal viewing distance.
+export const MIN_PRINT_DPI = 240;
+
+// For PDFs of ratios without a physical size.
+export const DEFAULT_PRINT_DPI = 300;
+
+const MM_PER_INCH = 25.4;
+
+export interface PrintOptions {
+  // Extra image beyond the trim on every side, in millimetres; 0 for none.
+  bleed: number;
+  cropMarks: boolean;
+}
+
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = { bleed: 0, cropMarks: false };
+
+export const DEFAULT_BLEED_MM = 3;
+
+export const toInches = (value: number, unit: PrintSize['unit']) => (unit === 'in' ? value : value / MM_PER_INCH);
+
+export const mmToInches = (mm: number) => mm / MM_PER_INCH;
+
+export const isPortrait = (size: PrintSize) => size.height >= size.width;
+
+// `name` is given for the portrait orientation.
+export const printPreset = (name: string, width: number, height: number, unit: PrintSize['unit'], landscape = false): Ratio => {
+  const size = landscape ? { width: height, height: width } : { width, height };
+  return {
+    label: `${name} ${landscape ? 'Landscape' : 'Portrait'}`,
+    value: size.width / size.height,
+    print: { name, ...size, unit },
+  };
+};
+
+export const PRINT_SIZES: [name: string, width: number, height: number, unit: PrintSize['unit']][] = [
+  ['4×6 in', 4, 6, 'in'],
+  ['5×7 in', 5, 7, 'in'],
+  ['8×10 in', 8, 10, 'in'],
+  ['A4', 210, 297, 'mm'],
+];
+
+export const PRINT_RATIOS: Ratio[] = PRINT_SIZES.flatMap(([name, width, height, unit]) => [
+  printPreset(name, width, height, unit),
+  printPreset(name, width, height, unit, true),
+]);
+
+// The same paper turned the other way.
+export const swapPrintRatio = (ratio: Ratio & { print: PrintSize }): Ratio => {
+  const { name, width, height, unit } = ratio.print;
+  return isPortrait(ratio.print)
+    ? printPreset(name, width, height, unit, true)
+    : printPreset(name, height, width, unit);
+};
+
+export const getEffectiveDpi = (pixelWidth: number, size: PrintSize) => pixelWidth / toInches(size.width, size.unit);
+
+export const formatPrintSize = (size: PrintSize) =>
+  `${Number(size.width.toFixed(2))} × ${Number(size.height.toFixed(2))} ${size.unit}`;
+
+// The output enlarged by `bleed` pixels on every side, for printing past the
+// trim. The image is scaled up to cover the extra area, so what lands in
+// the bleed is the image's own edge.
+export function addBleed(canvas: RenderCanvas, bleed: number): RenderCanvas {
+  if (bleed <= 0) return canvas;
+  const width = canvas.width + 2 * Math.round(bleed);
+  const height = canvas.height + 2 * Math.round(bleed);
+  const output = createCanvas(width, height);
+  const ctx = get2dContext(output);
+  if (!ctx) return canvas;
+  const scale = Math.max(width / canvas.width, height / canvas.height);
+  const drawWidth = canvas.width * scale;
+  const drawHeight = canvas.height * scale;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(canvas, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  return output;
+}
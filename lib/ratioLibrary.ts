@@ -0,0 +1,31 @@
+import type { Ratio } from '../types';
+
+// The user's saved custom ratios, kept in localStorage so they survive reloads.
+
+const STORAGE_KEY = 'aspect-ratio-converter:saved-ratios';
+
+const isRatio = (value: any): value is Ratio =>
+  value != null
+  && typeof value.label === 'string'
+  && typeof value.value === 'number'
+  && value.value > 0
+  && (value.size == null || (typeof value.size.width === 'number' && typeof value.size.height === 'number'));
+
+export function loadSavedRatios(): Ratio[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter(isRatio) : [];
+  } catch (e) {
+    console.error('Could not read saved ratios:', e);
+    return [];
+  }
+}
+
+export function storeSavedRatios(ratios: Ratio[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ratios));
+  } catch (e) {
+    console.error('Could not save ratios:', e);
+  }
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { PRESET_GROUPS, swapRatio } from './ratios';
+
+describe('swapRatio', () => {
+  it('swaps a plain ratio', () => {
+    expect(swapRatio({ label: '4:5', value: 4 / 5 })).toEqual({ label: '5:4', value: 5 / 4 });
+    expect(swapRatio({ label: '1.91', value: 1.91 })).toEqual({ label: '1:1.91', value: 1 / 1.91 });
+  });
+
+  it('keeps the name of a platform preset', () => {
+    const portrait = PRESET_GROUPS[0].ratios.find(ratio => ratio.label === 'Instagram Portrait 1080×1350')!;
+    const swapped = swapRatio(portrait);
+    expect(swapped).toEqual({ label: 'Instagram Portrait 1350×1080', value: 1350 / 1080, size: { width: 1350, height: 1080 } });
+    expect(swapRatio(swapped)).toEqual(portrait);
+  });
+
+  it('swaps an unnamed pixel size', () => {
+    expect(swapRatio({ label: '800×600', value: 800 / 600, size: { width: 800, height: 600 } }).label).toBe('600×800');
+  });
+});
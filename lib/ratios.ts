@@ -0,0 +1,146 @@
+import type { Ratio, RatioGroup } from '../types';
+import { PRINT_RATIOS, swapPrintRatio } from './print';
+import { splitRatio } from './split';
+
+export const RATIOS: Ratio[] = [
+  { label: '16:9', value: 16 / 9 },
+  { label: '4:3', value: 4 / 3 },
+  { label: '1:1', value: 1 / 1 },
+  { label: '3:2', value: 3 / 2 },
+  { label: '5:4', value: 5 / 4 },
+  { label: '9:16', value: 9 / 16 },
+  { label: '1.85:1', value: 1.85 / 1 },
+  { label: '2.35:1', value: 2.35 / 1 },
+];
+
+// An unlocked crop. A value of 0 means "no aspect constraint" throughout.
+export const FREE_RATIO: Ratio = { label: 'Free', value: 0 };
+
+export const isFreeRatio = (ratio: Ratio) => ratio.value <= 0;
+
+const preset = (name: string, width: number, height: number): Ratio => ({
+  label: `${name} ${width}×${height}`,
+  value: width / height,
+  size: { width, height },
+});
+
+export const PRESET_GROUPS: RatioGroup[] = [
+  {
+    name: 'Instagram',
+    ratios: [
+      preset('Instagram Square', 1080, 1080),
+      preset('Instagram Portrait', 1080, 1350),
+      preset('Instagram Landscape', 1080, 566),
+      preset('Instagram Story', 1080, 1920),
+    ],
+  },
+  {
+    name: 'YouTube',
+    ratios: [
+      preset('YouTube Thumbnail', 1280, 720),
+      preset('YouTube Channel Banner', 2560, 1440),
+    ],
+  },
+  {
+    name: 'Facebook',
+    ratios: [
+      preset('Facebook Post', 1200, 630),
+      preset('Facebook Cover', 851, 315),
+    ],
+  },
+  {
+    name: 'X (Twitter)',
+    ratios: [
+      preset('X Post', 1600, 900),
+      preset('X Header', 1500, 500),
+    ],
+  },
+  {
+    name: 'LinkedIn',
+    ratios: [
+      preset('LinkedIn Post', 1200, 627),
+      preset('LinkedIn Banner', 1584, 396),
+    ],
+  },
+  {
+    name: 'Pinterest',
+    ratios: [
+      preset('Pinterest Pin', 1000, 1500),
+    ],
+  },
+  {
+    name: 'Web',
+    ratios: [
+      preset('Open Graph', 1200, 630),
+      preset('Full HD', 1920, 1080),
+    ],
+  },
+  {
+    name: 'Print',
+    ratios: PRINT_RATIOS,
+  },
+];
+
+// The selector's groups: built-ins, the user's saved library, ratios entered
+// this session, then the platform presets.
+export function buildRatioGroups(saved: Ratio[], custom: Ratio[]): RatioGroup[] {
+  return [
+    { name: 'Aspect Ratios', ratios: [...RATIOS, FREE_RATIO] },
+    ...(saved.length > 0 ? [{ name: 'My Ratios', ratios: saved }] : []),
+    ...(custom.length > 0 ? [{ name: 'Custom', ratios: custom }] : []),
+    ...PRESET_GROUPS,
+  ];
+}
+
+export const MIN_RATIO = 1 / 10;
+export const MAX_RATIO = 10;
+
+const formatNumber = (value: number) => String(Number(value.toFixed(3)));
+
+export type ParsedRatio = { ratio: Ratio; error?: undefined } | { ratio?: undefined; error: string };
+
+// Accepts "4:5", "4x5", "4/5", "1.91:1" or a bare decimal such as "1.91".
+export function parseRatio(input: string): ParsedRatio {
+  const text = input.trim();
+  const pair = /^(\d+(?:\.\d+)?)\s*[:x×/]\s*(\d+(?:\.\d+)?)$/i.exec(text);
+  let width: number;
+  let height: number;
+  if (pair) {
+    width = Number(pair[1]);
+    height = Number(pair[2]);
+  } else if (/^\d+(?:\.\d+)?$/.test(text)) {
+    width = Number(text);
+    height = 1;
+  } else {
+    return { error: 'Enter a ratio like 4:5, 21:9 or 1.91.' };
+  }
+
+  if (!(width > 0 && height > 0)) {
+    return { error: 'Both sides of the ratio must be greater than zero.' };
+  }
+  const value = width / height;
+  if (value < MIN_RATIO || value > MAX_RATIO) {
+    return { error: 'The ratio must be between 1:10 and 10:1.' };
+  }
+  return { ratio: { label: `${formatNumber(width)}:${formatNumber(height)}`, value } };
+}
+
+// Turns a landscape ratio into its portrait counterpart and vice versa.
+export function swapRatio(ratio: Ratio): Ratio {
+  if (isFreeRatio(ratio)) return ratio;
+  // Turning a split turns each tile and the grid with it. A split of print
+  // tiles has a print size too, so this comes first.
+  if (ratio.split) return splitRatio(swapRatio(ratio.split.tile), ratio.split.rows, ratio.split.columns);
+  if (ratio.print) return swapPrintRatio({ ...ratio, print: ratio.print });
+  if (ratio.size) {
+    // Platform presets keep their name, so swapping back restores the label.
+    const { width, height } = ratio.size;
+    const name = ratio.label.replace(/\s*\d+×\d+$/, '');
+    return { label: `${name ? `${name} ` : ''}${height}×${width}`, value: height / width, size: { width: height, height: width } };
+  }
+  const [width, height] = ratio.label.split(':');
+  if (height === undefined) {
+    return { label: `1:${formatNumber(ratio.value)}`, value: 1 / ratio.value };
+  }
+  return { label: `${height}:${width}`, value: 1 / ratio.value };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_OUTPUT_SIZE } from './export';
+import { createRecipe, parseRecipe } from './recipe';
+import { splitRatio } from './split';
+import { IDENTITY_TRANSFORM } from './transform';
+
+const RATIO = { label: '4:5', value: 4 / 5, size: { width: 1080, height: 1350 } };
+
+const recipe = () => createRecipe(RATIO, { unit: '%', x: 10, y: 20, width: 40, height: 50 }, IDENTITY_TRANSFORM, DEFAULT_OUTPUT_SIZE, 'image/jpeg', 0.8);
+
+const withField = (path: string[], value: unknown) => {
+  const data = JSON.parse(JSON.stringify(recipe()));
+  let target = data;
+  for (const key of path.slice(0, -1)) target = target[key];
+  target[path[path.length - 1]] = value;
+  return JSON.stringify(data);
+};
+
+describe('parseRecipe', () => {
+  it('reads back what createRecipe wrote', () => {
+    expect(parseRecipe(JSON.stringify(recipe()))).toEqual(recipe());
+  });
+
+  it('keeps the paper size and the grid of tiles', () => {
+    const print = { name: '4×6 in', width: 4, height: 6, unit: 'in' as const };
+    const split = splitRatio({ label: '4×6 in Portrait', value: 4 / 6, print }, 3, 1);
+    const saved = createRecipe(split, { unit: '%', x: 0, y: 0, width: 100, height: 50 }, IDENTITY_TRANSFORM, DEFAULT_OUTPUT_SIZE, 'application/pdf', 0.9);
+    expect(parseRecipe(JSON.stringify(saved)).ratio).toEqual(split);
+  });
+
+  it('fills in what an older file leaves out', () => {
+    const parsed = parseRecipe(JSON.stringify({ ratio: { label: '1:1', value: 1 }, crop: { x: 0, y: 0, width: 1, height: 1 } }));
+    expect(parsed.transform).toEqual(IDENTITY_TRANSFORM);
+    expect(parsed.outputSize).toEqual(DEFAULT_OUTPUT_SIZE);
+    expect(parsed.format).toBe('image/webp');
+  });
+
+  it.each([
+    ['text that is not JSON', '{'],
+    ['a bare value', '3'],
+    ['a crop past the edge', withField(['crop', 'width'], 1.5)],
+    ['a negative output size', withField(['outputSize', 'width'], -1)],
+    ['an output scale of zero', withField(['outputSize', 'scale'], 0)],
+    ['an unknown output mode', withField(['outputSize', 'mode'], 'huge')],
+    ['an unknown format', withField(['format'], 'image/gif')],
+    ['a quality above 1', withField(['quality'], 2)],
+    ['a rotation that is not a quarter turn', withField(['transform', 'rotation'], 45)],
+    ['a paper size in an unknown unit', withField(['ratio', 'print'], { name: 'A4', width: 210, height: 297, unit: 'cm' })],
+    ['a grid with no columns', withField(['ratio', 'split'], { columns: 0, rows: 1, tile: { label: '1:1', value: 1 } })],
+    ['a grid without a tile', withField(['ratio', 'split'], { columns: 2, rows: 1 })],
+    ['a flip that is not a boolean', withField(['transform', 'flipH'], 'yes')],
+  ])('rejects %s', (_, text) => {
+    expect(() => parseRecipe(text)).toThrow('INVALID_RECIPE');
+  });
+});
@@ -0,0 +1,194 @@
+import type { PercentCrop } from 'react-image-crop';
+import type { PrintSize, Ratio } from '../types';
+import { constrainCrop, percentToPixelCrop, pixelToPercentCrop } from './crop';
+import { DEFAULT_OUTPUT_SIZE, type OutputSize, type OutputSizeMode } from './export';
+import { MAX_SPLIT, splitRatio } from './split';
+import { IDENTITY_TRANSFORM, MAX_STRAIGHTEN, type Transform } from './transform';
+
+// A crop "recipe": the framing of one ratio as a small JSON file, so it can
+// be shared and applied to another rendition of the same shot (a different
+// resolution or a re-edit). The crop is normalized to 0-1 of the transformed
+// frame, which is what keeps it independent of the pixel size.
+
+const RECIPE_VERSION = 1;
+const FORMATS = ['image/webp', 'image/jpeg', 'image/png', 'image/avif', 'application/pdf'] as const;
+
+export interface CropRecipe {
+  version: number;
+  ratio: Ratio;
+  crop: { x: number; y: number; width: number; height: number };
+  transform: Transform;
+  outputSize: OutputSize;
+  format: (typeof FORMATS)[number];
+  quality: number;
+}
+
+// The parts of a ratio that change the export: its pixel or paper size and
+// its grid of tiles, as well as the aspect.
+function toRecipeRatio(ratio: Ratio): Ratio {
+  return {
+    label: ratio.label,
+    value: ratio.value,
+    ...(ratio.size ? { size: ratio.size } : {}),
+    ...(ratio.print ? { print: ratio.print } : {}),
+    ...(ratio.split
+      ? { split: { columns: ratio.split.columns, rows: ratio.split.rows, tile: toRecipeRatio(ratio.split.tile) } }
+      : {}),
+  };
+}
+
+export function createRecipe(
+  ratio: Ratio,
+  crop: PercentCrop,
+  transform: Transform,
+  outputSize: OutputSize,
+  format: CropRecipe['format'],
+  quality: number,
+): CropRecipe {
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+  return {
+    version: RECIPE_VERSION,
+    ratio: toRecipeRatio(ratio),
+    crop: {
+      x: round(crop.x / 100),
+      y: round(crop.y / 100),
+      width: round(crop.width / 100),
+      height: round(crop.height / 100),
+    },
+    transform,
+    outputSize,
+    format,
+    quality,
+  };
+}
+
+const OUTPUT_SIZE_MODES: OutputSizeMode[] = ['native', 'exact', 'longEdge', 'scale'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isUnit = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPositive = (value: unknown): value is number => isFiniteNumber(value) && value > 0;
+
+const isFormat = (value: unknown): value is CropRecipe['format'] => FORMATS.some(format => format === value);
+
+const isOutputSizeMode = (value: unknown): value is OutputSizeMode => OUTPUT_SIZE_MODES.some(mode => mode === value);
+
+const invalid = () => new Error('INVALID_RECIPE');
+
+const isGridCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_SPLIT;
+
+function parsePrintSize(value: unknown): PrintSize {
+  if (
+    !isRecord(value)
+    || typeof value.name !== 'string'
+    || !isPositive(value.width) || !isPositive(value.height)
+    || (value.unit !== 'in' && value.unit !== 'mm')
+  ) {
+    throw invalid();
+  }
+  return { name: value.name, width: value.width, height: value.height, unit: value.unit };
+}
+
+function parseRatio(value: unknown, isTile = false): Ratio {
+  if (!isRecord(value) || typeof value.label !== 'string' || !value.label.trim() || !isFiniteNumber(value.value) || value.value < 0) {
+    throw invalid();
+  }
+  const ratio: Ratio = { label: value.label, value: value.value };
+  if (value.size !== undefined) {
+    const { size } = value;
+    if (!isRecord(size) || !isPositive(size.width) || !isPositive(size.height)) throw invalid();
+    ratio.size = { width: size.width, height: size.height };
+  }
+  if (value.print !== undefined) ratio.print = parsePrintSize(value.print);
+  if (value.split === undefined) return ratio;
+
+  const { split } = value;
+  if (isTile || !isRecord(split) || !isGridCount(split.columns) || !isGridCount(split.rows)) throw invalid();
+  const tile = parseRatio(split.tile, true);
+  if (!isPositive(tile.value)) throw invalid();
+  // Rebuilt from the tile, so the grid's value and sizes always agree with it.
+  return splitRatio(tile, split.columns, split.rows);
+}
+
+function parseCrop(value: unknown): CropRecipe['crop'] {
+  if (!isRecord(value)) throw invalid();
+  const { x, y, width, height } = value;
+  if (!isUnit(x) || !isUnit(y) || !isUnit(width) || !isUnit(height) || width === 0 || height === 0) throw invalid();
+  // Rounding in createRecipe can put the far edge a hair past 1.
+  if (x + width > 1 + 1e-6 || y + height > 1 + 1e-6) throw invalid();
+  return { x, y, width, height };
+}
+
+function parseTransform(value: unknown): Transform {
+  if (value === undefined) return { ...IDENTITY_TRANSFORM };
+  if (!isRecord(value)) throw invalid();
+  const { rotation = 0, straighten = 0, flipH = false, flipV = false } = value;
+  if (
+    typeof rotation !== 'number' || ![0, 90, 180, 270].includes(rotation)
+    || !isFiniteNumber(straighten) || Math.abs(straighten) > MAX_STRAIGHTEN
+    || typeof flipH !== 'boolean' || typeof flipV !== 'boolean'
+  ) {
+    throw invalid();
+  }
+  return { rotation, straighten, flipH, flipV };
+}
+
+// Missing fields take the defaults; present ones have to make sense, since
+// they go straight to the renderer.
+function parseOutputSize(value: unknown): OutputSize {
+  if (value === undefined) return DEFAULT_OUTPUT_SIZE;
+  if (!isRecord(value)) throw invalid();
+  const size = { ...DEFAULT_OUTPUT_SIZE, ...value };
+  if (
+    !isOutputSizeMode(size.mode)
+    || !isFiniteNumber(size.width) || size.width < 0
+    || !isFiniteNumber(size.height) || size.height < 0
+    || !isPositive(size.longEdge)
+    || !isPositive(size.scale)
+  ) {
+    throw invalid();
+  }
+  return { mode: size.mode, width: size.width, height: size.height, longEdge: size.longEdge, scale: size.scale };
+}
+
+// Parses a recipe file, filling in what older or hand-written files leave
+// out. Throws INVALID_RECIPE when the essentials are missing or anything
+// present is malformed.
+export function parseRecipe(text: string): CropRecipe {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw invalid();
+  }
+  if (!isRecord(data)) throw invalid();
+  const { version = RECIPE_VERSION, format = 'image/webp', quality = 0.9 } = data;
+  if (
+    !isFiniteNumber(version)
+    || !isFormat(format)
+    || !isUnit(quality) || quality === 0
+  ) {
+    throw invalid();
+  }
+  return {
+    version,
+    ratio: parseRatio(data.ratio),
+    crop: parseCrop(data.crop),
+    transform: parseTransform(data.transform),
+    outputSize: parseOutputSize(data.outputSize),
+    format,
+    quality,
+  };
+}
+
+// The recipe's crop on a frame of the given size. The other rendition may
+// not have exactly the same shape, so the crop is re-fitted to the ratio.
+export function getRecipeCrop(recipe: CropRecipe, frameWidth: number, frameHeight: number): PercentCrop {
+  const { x, y, width, height } = recipe.crop;
+  const pixels = percentToPixelCrop({ unit: '%', x: x * 100, y: y * 100, width: width * 100, height: height * 100 }, frameWidth, frameHeight);
+  return pixelToPercentCrop(constrainCrop(pixels, recipe.ratio.value, frameWidth, frameHeight), frameWidth, frameHeight);
+}
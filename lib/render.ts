@@ -0,0 +1,62 @@
+import type { PixelCrop } from 'react-image-crop';
+import { drawCroppedImage } from './canvas';
+import { type ConversionMode, type FitOptions, drawFittedImage } from './fit';
+import { type MaskOptions, applyMask } from './mask';
+import type { Transform } from './transform';
+import { type RenderCanvas, type SourceImage, createCanvas, get2dContext } from './surface';
+
+export interface RenderSettings {
+  mode: ConversionMode;
+  fit: FitOptions;
+  mask: MaskOptions;
+}
+
+// Single entry point for producing the converted image, so the preview, the
+// download/copy path and batch export render exactly the same thing.
+// `crop` is in frame pixels (see lib/transform) and is ignored in fit mode.
+// `extension` is an AI-extended fit output which, when present, replaces the
+// padded render. The output shape is masked in last.
+export function renderOutput(
+  canvas: RenderCanvas,
+  image: SourceImage,
+  crop: PixelCrop,
+  ratio: number,
+  transform: Transform,
+  settings: RenderSettings,
+  pixelRatio = 1,
+  extension?: RenderCanvas | ImageBitmap,
+): boolean {
+  const drawn = settings.mode === 'fit'
+    ? extension
+      ? drawScaled(canvas, extension, pixelRatio)
+      : drawFittedImage(canvas, image, ratio, transform, settings.fit, pixelRatio)
+    : drawCroppedImage(canvas, image, crop, transform, pixelRatio);
+  if (drawn) applyMask(canvas, settings.mask, ratio);
+  return drawn;
+}
+
+function drawScaled(canvas: RenderCanvas, source: RenderCanvas | ImageBitmap, pixelRatio: number): boolean {
+  const ctx = get2dContext(canvas);
+  if (!ctx || source.width === 0 || source.height === 0) return false;
+  canvas.width = Math.floor(source.width * pixelRatio);
+  canvas.height = Math.floor(source.height * pixelRatio);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return true;
+}
+
+// JPEG has no alpha channel and browsers encode transparent pixels as black,
+// so transparent areas are flattened onto `background` (white by default)
+// first. PDFs carry a JPEG too.
+export const hasNoAlpha = (format: string) => format === 'image/jpeg' || format === 'application/pdf';
+
+export function prepareForFormat(canvas: RenderCanvas, format: string, background = '#ffffff'): RenderCanvas {
+  if (!hasNoAlpha(format)) return canvas;
+  const flattened = createCanvas(canvas.width, canvas.height);
+  const ctx = get2dContext(flattened);
+  if (!ctx) return canvas;
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, flattened.width, flattened.height);
+  ctx.drawImage(canvas, 0, 0);
+  return flattened;
+}
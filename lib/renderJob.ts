@@ -0,0 +1,159 @@
+import type { PercentCrop } from 'react-image-crop';
+import type { PrintSize, SplitGrid } from '../types';
+import { type EncodeResult, encodeCanvas, encodeOutput } from './encode';
+import { type OutputSize, renderExport } from './export';
+import { type ImageMetadata, type MetadataOptions, embedDensity, embedMetadata, loadOrientedImage, loadUnmanagedImage } from './metadata';
+import { createPdf } from './pdf';
+import { DEFAULT_PRINT_DPI, type PrintOptions, addBleed, getEffectiveDpi, mmToInches, toInches } from './print';
+import { type RenderSettings, prepareForFormat } from './render';
+import { type Tile, cutTile } from './split';
+import { type Transform, getFrameCrop } from './transform';
+import { type RenderCanvas, type SourceImage, getImageSize } from './surface';
+
+// Exports are rendered and encoded in a worker (lib/renderWorker) on an
+// OffscreenCanvas, so full-resolution files never block the page. Browsers
+// without OffscreenCanvas run the same pipeline on the main thread.
+
+export interface RenderJob {
+  file: Blob;
+  // Identifies `file` across jobs, so the worker decodes it only once.
+  sourceKey: string;
+  // Decode without colour conversion, for exports that keep the ICC profile.
+  unmanaged: boolean;
+  // In percent of the frame.
+  crop: PercentCrop;
+  ratio: number;
+  transform: Transform;
+  settings: RenderSettings;
+  outputSize: OutputSize;
+  extension?: ImageBitmap;
+  format: string;
+  quality: number;
+  targetBytes: number | null;
+  metadata: ImageMetadata | null;
+  metadataOptions: MetadataOptions;
+  // The ratio's paper size, if it's a print preset: sets the DPI written into
+  // PNG and JPEG files, and the page size of a PDF.
+  print: PrintSize | null;
+  printOptions: PrintOptions;
+  // For split ratios: the one tile of the grid to export.
+  tile?: { grid: SplitGrid; tile: Tile };
+}
+
+export interface RenderWorkerRequest {
+  id: number;
+  job: RenderJob;
+}
+export type RenderWorkerResponse = { id: number; result: EncodeResult | null } | { id: number; error: string };
+
+export const decodeSource = (file: Blob, unmanaged: boolean) =>
+  unmanaged ? loadUnmanagedImage(file) : loadOrientedImage(file);
+
+// Render, cut out the tile if there is one, flatten for the format, then
+// encode with metadata. Null when the crop has no area.
+export async function renderJob(image: SourceImage, job: RenderJob): Promise<EncodeResult | null> {
+  const { width, height } = getImageSize(image);
+  const crop = getFrameCrop(job.crop, width, height, job.transform);
+  const output = renderExport(image, crop, job.ratio, job.transform, job.settings, job.outputSize, job.extension);
+  if (!output) return null;
+  const canvas = job.tile ? cutTile(output, job.tile.grid, job.tile.tile) : output;
+  const prepared = prepareForFormat(canvas, job.format, job.settings.mask.background);
+  if (job.format === 'application/pdf') {
+    return encodeOutput(quality => encodePdf(prepared, quality, job), job.format, job.quality, job.targetBytes);
+  }
+  const dpi = job.print && getEffectiveDpi(prepared.width, job.print);
+  return encodeOutput(
+    quality => encodeCanvas(prepared, job.format, quality)
+      .then(blob => embedMetadata(blob, job.metadata, job.metadataOptions))
+      .then(blob => (dpi ? embedDensity(blob, dpi) : blob)),
+    job.format,
+    job.quality,
+    job.targetBytes,
+  );
+}
+
+// A page the trim size of the print preset, or of the pixels at
+// DEFAULT_PRINT_DPI for other ratios, with the JPEG placed on it.
+async function encodePdf(canvas: RenderCanvas, quality: number, job: RenderJob): Promise<Blob> {
+  const width = job.print ? toInches(job.print.width, job.print.unit) : canvas.width / DEFAULT_PRINT_DPI;
+  const height = job.print ? toInches(job.print.height, job.print.unit) : canvas.height / DEFAULT_PRINT_DPI;
+  const bleed = mmToInches(job.printOptions.bleed);
+  const dpi = canvas.width / width;
+  const page = addBleed(canvas, bleed * dpi);
+  const jpeg = await encodeCanvas(page, 'image/jpeg', quality)
+    .then(blob => embedMetadata(blob, job.metadata, job.metadataOptions));
+  return createPdf({
+    jpeg,
+    pixelWidth: page.width,
+    pixelHeight: page.height,
+    width,
+    height,
+    bleed,
+    cropMarks: job.printOptions.cropMarks,
+  });
+}
+
+const supportsWorker = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof OffscreenCanvas.prototype.convertToBlob === 'function';
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextJobId = 0;
+const pending = new Map<number, { resolve: (result: EncodeResult | null) => void; reject: (error: Error) => void }>();
+
+function getWorker(): Worker | null {
+  if (worker || workerFailed || !supportsWorker()) return worker;
+  worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<RenderWorkerResponse>) => {
+    const request = pending.get(event.data.id);
+    if (!request) return;
+    pending.delete(event.data.id);
+    if ('error' in event.data) request.reject(new Error(event.data.error));
+    else request.resolve(event.data.result);
+  };
+  // The worker script itself failed (e.g. no OffscreenCanvas 2D context):
+  // fail what was queued and render on the main thread from now on.
+  worker.onerror = () => {
+    workerFailed = true;
+    releaseRenderWorker();
+  };
+  return worker;
+}
+
+async function renderOnMainThread(job: RenderJob): Promise<EncodeResult | null> {
+  const image = await decodeSource(job.file, job.unmanaged);
+  try {
+    return await renderJob(image, job);
+  } finally {
+    image.close();
+    job.extension?.close();
+  }
+}
+
+export function runRenderJob(job: RenderJob): Promise<EncodeResult | null> {
+  const target = getWorker();
+  if (!target) return renderOnMainThread(job);
+  const id = nextJobId++;
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    const message: RenderWorkerRequest = { id, job };
+    // The extension is copied rather than transferred, so it can still be
+    // drawn here if the worker fails. The worker closes its copy.
+    target.postMessage(message);
+  }).catch((error: Error) => {
+    // Jobs cut off by a failed worker are retried here.
+    if (workerFailed) return renderOnMainThread(job);
+    throw error;
+  }).finally(() => job.extension?.close()) as Promise<EncodeResult | null>;
+}
+
+// Stops the worker, which drops its decoded image. It starts again on the
+// next job.
+export function releaseRenderWorker() {
+  worker?.terminate();
+  worker = null;
+  pending.forEach(request => request.reject(new Error('RENDER_CANCELLED')));
+  pending.clear();
+}
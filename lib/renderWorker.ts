@@ -0,0 +1,34 @@
+/// <reference lib="webworker" />
+import { type RenderWorkerRequest, type RenderWorkerResponse, decodeSource, renderJob } from './renderJob';
+
+// Render/encode worker. It keeps the last decoded source, since exports and
+// size estimates of the same image come in runs.
+
+let cached: { key: string; image: Promise<ImageBitmap> } | null = null;
+
+function getSource(file: Blob, key: string): Promise<ImageBitmap> {
+  if (cached?.key !== key) {
+    cached?.image.then(image => image.close()).catch(() => {});
+    const image = decodeSource(file, key.endsWith(':unmanaged'));
+    cached = { key, image };
+    // A failed decode isn't kept, so the next request tries again.
+    image.catch(() => {
+      if (cached?.image === image) cached = null;
+    });
+  }
+  return cached.image;
+}
+
+self.onmessage = async (event: MessageEvent<RenderWorkerRequest>) => {
+  const { id, job } = event.data;
+  let response: RenderWorkerResponse;
+  try {
+    const image = await getSource(job.file, `${job.sourceKey}:${job.unmanaged ? 'unmanaged' : 'managed'}`);
+    response = { id, result: await renderJob(image, job) };
+  } catch (e) {
+    response = { id, error: e instanceof Error ? e.message : 'RENDER_FAILED' };
+  } finally {
+    job.extension?.close();
+  }
+  self.postMessage(response);
+};
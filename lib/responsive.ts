@@ -0,0 +1,133 @@
+import type { PercentCrop, PixelCrop } from 'react-image-crop';
+import type { Ratio } from '../types';
+import { type BatchItem, getItemCrop } from './batch';
+import { getFormatExtension, getRatioSuffix } from './download';
+import { type Transform, getFrameCrop, getFrameSize, mapBoxToFrame } from './transform';
+
+// Crop *data* for front ends that cut images themselves (a headless CMS, an
+// image CDN): the focal point and each ratio's crop as JSON, plus a
+// <picture>/srcset snippet for a set of widths rendered from one crop.
+
+export const RESPONSIVE_WIDTHS = [320, 640, 960, 1280, 1920, 2560];
+
+// 0-1 of the frame.
+export interface FocalPoint {
+  x: number;
+  y: number;
+  // Where it came from: the chosen smart crop subject, or the middle of the
+  // open crop when there is none.
+  source: 'subject' | 'crop';
+}
+
+export interface RatioCropData {
+  label: string;
+  // Width / height, 0 for a free crop.
+  ratio: number;
+  // The editor's own shape: percent of the frame.
+  crop: PercentCrop;
+  // The same rectangle in 0-1 of the frame.
+  normalized: { x: number; y: number; width: number; height: number };
+  // And in frame pixels.
+  pixels: PixelCrop;
+}
+
+export interface CropData {
+  image: { name: string; width: number; height: number };
+  // Applied before cropping; `width`/`height` above are the frame after it.
+  transform: Transform;
+  focalPoint: FocalPoint;
+  crops: RatioCropData[];
+}
+
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+const centerOf = (crop: PercentCrop) => ({ x: (crop.x + crop.width / 2) / 100, y: (crop.y + crop.height / 2) / 100 });
+
+export function getFocalPoint(item: BatchItem, openCrop: PercentCrop): FocalPoint {
+  const subject = item.candidates[item.selectedCandidate];
+  if (subject) {
+    const box = mapBoxToFrame(subject.box, item.naturalWidth, item.naturalHeight, item.transform);
+    if (box.width > 0 && box.height > 0) {
+      const { x, y } = centerOf(box);
+      return { x: round(x), y: round(y), source: 'subject' };
+    }
+  }
+  const { x, y } = centerOf(openCrop);
+  return { x: round(x), y: round(y), source: 'crop' };
+}
+
+// `openCrop` is the editor's crop for `openRatio`, which may be newer than
+// the one stored on the item.
+export function buildCropData(item: BatchItem, ratios: Ratio[], openRatio: Ratio, openCrop: PercentCrop): CropData {
+  const frame = getFrameSize(item.naturalWidth, item.naturalHeight, item.transform);
+  return {
+    image: { name: item.file.name, width: frame.width, height: frame.height },
+    transform: item.transform,
+    focalPoint: getFocalPoint(item, openCrop),
+    crops: ratios.map(ratio => {
+      const crop = ratio.label === openRatio.label ? openCrop : getItemCrop(item, ratio);
+      const pixels = getFrameCrop(crop, item.naturalWidth, item.naturalHeight, item.transform);
+      return {
+        label: ratio.label,
+        ratio: ratio.value,
+        crop: { unit: '%', x: round(crop.x), y: round(crop.y), width: round(crop.width), height: round(crop.height) },
+        normalized: {
+          x: round(crop.x / 100, 6),
+          y: round(crop.y / 100, 6),
+          width: round(crop.width / 100, 6),
+          height: round(crop.height / 100, 6),
+        },
+        pixels: {
+          unit: 'px',
+          x: Math.round(pixels.x),
+          y: Math.round(pixels.y),
+          width: Math.round(pixels.width),
+          height: Math.round(pixels.height),
+        },
+      };
+    }),
+  };
+}
+
+// The widths worth rendering for an output `nativeWidth` wide: never
+// enlarged, so the largest is the native width when that's in between.
+export function getResponsiveWidths(nativeWidth: number): number[] {
+  const widths = RESPONSIVE_WIDTHS.filter(width => width < nativeWidth);
+  if (nativeWidth <= RESPONSIVE_WIDTHS[RESPONSIVE_WIDTHS.length - 1]) widths.push(Math.floor(nativeWidth));
+  return widths;
+}
+
+export interface ResponsiveFile {
+  name: string;
+  width: number;
+}
+
+export const getResponsiveFileName = (baseName: string, ratio: Ratio, width: number, format: string) =>
+  `${baseName}-${getRatioSuffix(ratio.label)}-${width}w.${getFormatExtension(format)}`;
+
+const escapeAttribute = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+const toSrcset = (files: ResponsiveFile[]) => files.map(file => `${encodeURI(file.name)} ${file.width}w`).join(', ');
+
+// A <picture> for the rendered files: one <source> per modern format, and
+// an <img> with the fallback set. `height` is for the largest width, so the
+// browser can reserve the space before loading.
+export function buildPictureSnippet(
+  sources: { format: string; files: ResponsiveFile[] }[],
+  fallback: ResponsiveFile[],
+  ratio: number,
+  alt = '',
+  sizes = '100vw',
+): string {
+  const largest = fallback[fallback.length - 1];
+  const lines = ['<picture>'];
+  for (const source of sources) {
+    lines.push(`  <source type="${source.format}" srcset="${toSrcset(source.files)}" sizes="${sizes}">`);
+  }
+  lines.push(
+    `  <img src="${encodeURI(largest.name)}" srcset="${toSrcset(fallback)}" sizes="${sizes}"`
+      + ` width="${largest.width}" height="${Math.round(largest.width / ratio)}" alt="${escapeAttribute(alt)}" loading="lazy" decoding="async">`,
+  );
+  lines.push('</picture>');
+  return lines.join('\n') + '\n';
+}
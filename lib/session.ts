@@ -0,0 +1,160 @@
+import type { PercentCrop } from 'react-image-crop';
+import type { Ratio, SmartCropCandidate } from '../types';
+import type { OutputSize } from './export';
+import type { ConversionMode, FitOptions } from './fit';
+import type { MaskOptions } from './mask';
+import type { ImageMetadata } from './metadata';
+import type { Transform } from './transform';
+
+// Sessions saved to IndexedDB so a reload (or a crash) doesn't lose the
+// work: the queued images themselves plus every edit made to them. The image
+// files live in their own store and are written once per item; the session
+// record, which changes with every edit, only holds the small state.
+
+const DB_NAME = 'aspect-ratio-converter';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const IMAGES = 'images';
+// Which session to reopen on load; cleared when the user starts over.
+const CURRENT_KEY = 'aspect-ratio-converter:current-session';
+
+export const MAX_SESSIONS = 8;
+
+export interface SavedItem {
+  // Also the key of the item's file in the images store.
+  id: string;
+  name: string;
+  metadata: ImageMetadata | null;
+  crops: Record<string, PercentCrop>;
+  transform: Transform;
+  candidates: SmartCropCandidate[];
+  selectedCandidate: number;
+}
+
+export interface Session {
+  id: string;
+  updatedAt: number;
+  name: string;
+  thumbnail: string | null;
+  items: SavedItem[];
+  activeId: string | null;
+  selectedRatio: Ratio;
+  exportRatios: Ratio[];
+  outputSize: OutputSize;
+  mode: ConversionMode;
+  fitOptions: FitOptions;
+  maskOptions: MaskOptions;
+  format: string;
+  quality: number;
+}
+
+export type SessionSummary = Pick<Session, 'id' | 'updatedAt' | 'name' | 'thumbnail'> & { count: number };
+
+let db: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  db ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SESSIONS, { keyPath: 'id' });
+      request.result.createObjectStore(IMAGES);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // A failed open (private browsing, storage disabled) is retried next time.
+  db.catch(() => { db = null; });
+  return db;
+}
+
+const settle = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const complete = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const createSessionId = () => `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Saves the session and any of `files` the images store doesn't have yet,
+// then drops the oldest sessions past MAX_SESSIONS.
+export async function saveSession(session: Session, files: Record<string, Blob>) {
+  const database = await openDb();
+  const transaction = database.transaction([SESSIONS, IMAGES], 'readwrite');
+  const images = transaction.objectStore(IMAGES);
+  const storedKeys = await settle(images.getAllKeys());
+  for (const [id, file] of Object.entries(files)) {
+    if (!storedKeys.includes(id)) images.put(file, id);
+  }
+  transaction.objectStore(SESSIONS).put(session);
+  await complete(transaction);
+  await pruneSessions(database);
+}
+
+async function pruneSessions(database: IDBDatabase) {
+  const transaction = database.transaction([SESSIONS, IMAGES], 'readwrite');
+  const sessions = transaction.objectStore(SESSIONS);
+  const all = (await settle(sessions.getAll())) as Session[];
+  all.sort((a, b) => b.updatedAt - a.updatedAt);
+  const kept = new Set(all.slice(0, MAX_SESSIONS).flatMap(session => session.items.map(item => item.id)));
+  all.slice(MAX_SESSIONS).forEach(session => sessions.delete(session.id));
+  const images = transaction.objectStore(IMAGES);
+  const imageKeys = await settle(images.getAllKeys());
+  imageKeys.forEach(key => { if (!kept.has(String(key))) images.delete(key); });
+  await complete(transaction);
+}
+
+// The session with its image files, or null when it (or every one of its
+// images) is gone.
+export async function loadSession(id: string): Promise<{ session: Session; files: Record<string, Blob> } | null> {
+  const database = await openDb();
+  const transaction = database.transaction([SESSIONS, IMAGES], 'readonly');
+  const session = (await settle(transaction.objectStore(SESSIONS).get(id))) as Session | undefined;
+  if (!session) return null;
+  const images = transaction.objectStore(IMAGES);
+  const files: Record<string, Blob> = {};
+  for (const item of session.items) {
+    const file = (await settle(images.get(item.id))) as Blob | undefined;
+    if (file) files[item.id] = file;
+  }
+  return Object.keys(files).length > 0 ? { session, files } : null;
+}
+
+export async function listSessions(): Promise<SessionSummary[]> {
+  const database = await openDb();
+  const all = (await settle(database.transaction(SESSIONS, 'readonly').objectStore(SESSIONS).getAll())) as Session[];
+  return all
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(({ id, updatedAt, name, thumbnail, items }) => ({ id, updatedAt, name, thumbnail, count: items.length }));
+}
+
+export async function deleteSession(id: string) {
+  const database = await openDb();
+  const transaction = database.transaction(SESSIONS, 'readwrite');
+  transaction.objectStore(SESSIONS).delete(id);
+  await complete(transaction);
+  await pruneSessions(database);
+}
+
+export function getCurrentSessionId(): string | null {
+  try {
+    return localStorage.getItem(CURRENT_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setCurrentSessionId(id: string | null) {
+  try {
+    if (id) localStorage.setItem(CURRENT_KEY, id);
+    else localStorage.removeItem(CURRENT_KEY);
+  } catch (e) {
+    console.error('Could not store the current session:', e);
+  }
+}
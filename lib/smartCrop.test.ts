@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SmartCropCandidate } from '../types';
+import { createMockProvider } from './mockSmartCrop';
+import { type SmartCropProvider, getSmartCropCandidates, requestWithRetries, smartCropError } from './smartCrop';
+
+// The cache lives as long as the module, so every test uses its own image.
+let images = 0;
+const newImage = () => new File([new Uint8Array([0xff, 0xd8, images++, 0xff, 0xd9])], 'photo.jpg', { type: 'image/jpeg' });
+
+const CANDIDATE: SmartCropCandidate = { label: 'Dog', box: { unit: '%', x: 10, y: 10, width: 50, height: 50 } };
+
+// A provider that answers from a script, one entry per call.
+function scriptedProvider(script: (SmartCropCandidate[] | Error)[]): SmartCropProvider & { calls: number } {
+  const provider = {
+    id: 'scripted',
+    calls: 0,
+    async findSubjects() {
+      const answer = script[Math.min(provider.calls++, script.length - 1)];
+      if (answer instanceof Error) throw answer;
+      return answer;
+    },
+  };
+  return provider;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('the mock provider', () => {
+  it('answers the same image with the same three boxes', async () => {
+    const image = newImage();
+    const first = await createMockProvider(0).findSubjects(image, '', new AbortController().signal);
+    const second = await createMockProvider(0).findSubjects(image, 'the dog', new AbortController().signal);
+    expect(first.map(candidate => candidate.label)).toEqual(['Main subject', 'Left detail', 'Right detail']);
+    expect(second).toEqual(first);
+    for (const { box } of first) {
+      expect(box.x + box.width).toBeLessThanOrEqual(100);
+      expect(box.y + box.height).toBeLessThanOrEqual(100);
+    }
+  });
+
+  it('fails with a known code and ignores an unknown one', async () => {
+    const provider = createMockProvider(0);
+    await expect(provider.findSubjects(newImage(), 'fail:auth_failed', new AbortController().signal)).rejects.toThrow('AUTH_FAILED');
+    await expect(provider.findSubjects(newImage(), 'fail:NOPE', new AbortController().signal)).resolves.toHaveLength(3);
+  });
+});
+
+describe('getSmartCropCandidates', () => {
+  it('retries a quota error with backoff and gives up after two retries', async () => {
+    vi.useFakeTimers();
+    const provider = scriptedProvider([smartCropError('QUOTA_EXCEEDED')]);
+    const result = getSmartCropCandidates(provider, newImage());
+    const settled = expect(result).rejects.toThrow('QUOTA_EXCEEDED');
+    await vi.advanceTimersByTimeAsync(999);
+    expect(provider.calls).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(provider.calls).toBe(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    await settled;
+    expect(provider.calls).toBe(3);
+  });
+
+  it('succeeds once a retry gets an answer', async () => {
+    vi.useFakeTimers();
+    const provider = scriptedProvider([smartCropError('NETWORK_ERROR'), [CANDIDATE]]);
+    const result = getSmartCropCandidates(provider, newImage());
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(result).resolves.toEqual([CANDIDATE]);
+    expect(provider.calls).toBe(2);
+  });
+
+  it('does not retry errors that will not go away', async () => {
+    const provider = scriptedProvider([smartCropError('AUTH_FAILED'), [CANDIDATE]]);
+    await expect(getSmartCropCandidates(provider, newImage())).rejects.toThrow('AUTH_FAILED');
+    expect(provider.calls).toBe(1);
+  });
+
+  it('asks once per image, instruction and provider', async () => {
+    const provider = scriptedProvider([[CANDIDATE]]);
+    const image = newImage();
+    await getSmartCropCandidates(provider, image, 'the dog');
+    await getSmartCropCandidates(provider, image, ' the dog ');
+    expect(provider.calls).toBe(1);
+    await getSmartCropCandidates(provider, image, 'the cat');
+    await getSmartCropCandidates({ ...provider, id: 'other' }, image, 'the dog');
+    expect(provider.calls).toBe(3);
+  });
+
+  it('does not cache an empty answer', async () => {
+    const provider = scriptedProvider([[], [CANDIDATE]]);
+    const image = newImage();
+    await expect(getSmartCropCandidates(provider, image)).resolves.toEqual([]);
+    await expect(getSmartCropCandidates(provider, image)).resolves.toEqual([CANDIDATE]);
+    expect(provider.calls).toBe(2);
+  });
+
+  it('rejects with CANCELLED when aborted', async () => {
+    const controller = new AbortController();
+    const result = getSmartCropCandidates(createMockProvider(10_000), newImage(), '', controller.signal);
+    controller.abort();
+    await expect(result).rejects.toThrow('CANCELLED');
+  });
+});
+
+describe('requestWithRetries', () => {
+  it('times out a request that never answers, on every attempt', async () => {
+    vi.useFakeTimers();
+    let calls = 0;
+    const result = requestWithRetries(() => {
+      calls++;
+      return new Promise<never>(() => {});
+    }, undefined, 100);
+    const settled = expect(result).rejects.toThrow('TIMEOUT');
+    // Three attempts of 100 ms with 1 s and 2 s of backoff between them.
+    await vi.advanceTimersByTimeAsync(3300);
+    await settled;
+    expect(calls).toBe(3);
+  });
+
+  it('stops waiting between retries when aborted', async () => {
+    vi.useFakeTimers();
+    const controller = new AbortController();
+    const result = requestWithRetries(() => Promise.reject(smartCropError('NETWORK_ERROR')), controller.signal);
+    const settled = expect(result).rejects.toThrow('CANCELLED');
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+    await settled;
+  });
+});
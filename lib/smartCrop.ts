@@ -0,0 +1,155 @@
+import type { PercentCrop } from 'react-image-crop';
+import type { SmartCropCandidate } from '../types';
+
+// AI smart crop, independent of the service behind it. A provider turns an
+// image into ranked subject boxes; this module adds what every provider
+// needs around that call: a timeout, cancellation, retries with backoff and
+// a cache keyed by the image's contents.
+
+export interface SmartCropProvider {
+  // Goes into the cache key, so it should change with anything that changes
+  // the answers (e.g. the model).
+  id: string;
+  // Up to three boxes, best first. `instruction` lets the user say which
+  // subject matters. Failures throw one of the SmartCropErrorCode messages.
+  findSubjects(image: File, instruction: string, signal: AbortSignal): Promise<SmartCropCandidate[]>;
+}
+
+// The error messages smart crop (and the other AI requests) fail with, so
+// the UI can tell them apart.
+export const SMART_CROP_ERROR_CODES = [
+  'API_KEY_NOT_CONFIGURED',
+  'AUTH_FAILED',
+  'QUOTA_EXCEEDED',
+  'NETWORK_ERROR',
+  'TIMEOUT',
+  'BAD_RESPONSE',
+  'CANCELLED',
+] as const;
+
+export type SmartCropErrorCode = (typeof SMART_CROP_ERROR_CODES)[number];
+
+export const isSmartCropErrorCode = (value: string): value is SmartCropErrorCode =>
+  (SMART_CROP_ERROR_CODES as readonly string[]).includes(value);
+
+export const smartCropError = (code: SmartCropErrorCode) => new Error(code);
+
+export const isSmartCropError = (e: unknown, code: SmartCropErrorCode) => e instanceof Error && e.message === code;
+
+// Worth another try: the service may answer next time.
+const RETRYABLE: SmartCropErrorCode[] = ['NETWORK_ERROR', 'TIMEOUT', 'QUOTA_EXCEEDED'];
+
+const REQUEST_TIMEOUT_MS = 30_000;
+const MAX_RETRIES = 2;
+const BACKOFF_MS = 1000;
+const CACHE_LIMIT = 50;
+
+// Clamps a box in percent of the image into the image.
+export function toPercentCrop(data: { x: number; y: number; width: number; height: number }): PercentCrop {
+  const x = Math.max(0, data.x);
+  const y = Math.max(0, data.y);
+  return {
+    unit: '%',
+    x,
+    y,
+    width: Math.min(100 - x, data.width),
+    height: Math.min(100 - y, data.height),
+  };
+}
+
+// Resolves after `ms`, or rejects with CANCELLED as soon as `signal` aborts.
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(smartCropError('CANCELLED'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(smartCropError('CANCELLED'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// One request with its own timeout. It settles as soon as either signal
+// fires, even if the provider doesn't stop on abort.
+async function attempt<T>(run: (signal: AbortSignal) => Promise<T>, signal: AbortSignal | undefined, timeoutMs: number): Promise<T> {
+  // An abort before this point fires no event.
+  if (signal?.aborted) throw smartCropError('CANCELLED');
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(smartCropError(timedOut ? 'TIMEOUT' : 'CANCELLED')), { once: true });
+  });
+  try {
+    return await Promise.race([run(controller.signal), aborted]);
+  } catch (e) {
+    // Providers report an abort in their own way; report it as ours.
+    if (controller.signal.aborted) throw smartCropError(timedOut ? 'TIMEOUT' : 'CANCELLED');
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Runs an AI request with a timeout per attempt, retrying transient failures
+// with exponential backoff. `run` gets the signal to pass on to the service.
+export async function requestWithRetries<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+  timeoutMs = REQUEST_TIMEOUT_MS,
+): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt(run, signal, timeoutMs);
+    } catch (e) {
+      const retryable = RETRYABLE.some(code => isSmartCropError(e, code));
+      if (!retryable || retry >= MAX_RETRIES) throw e;
+      await wait(BACKOFF_MS * 2 ** retry, signal);
+    }
+  }
+}
+
+const cache = new Map<string, SmartCropCandidate[]>();
+
+async function hashImage(file: Blob): Promise<string | null> {
+  // crypto.subtle only exists in secure contexts; without it nothing is cached.
+  if (!globalThis.crypto?.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Asks `provider` for subject boxes (see requestWithRetries). The same image,
+// instruction and provider are only ever sent once; later calls get the
+// cached answer.
+export async function getSmartCropCandidates(
+  provider: SmartCropProvider,
+  image: File,
+  instruction = '',
+  signal?: AbortSignal,
+): Promise<SmartCropCandidate[]> {
+  const hash = await hashImage(image);
+  const key = hash && `${provider.id}:${hash}:${instruction.trim()}`;
+  const cached = key ? cache.get(key) : undefined;
+  if (cached) return cached;
+
+  const candidates = await requestWithRetries(requestSignal => provider.findSubjects(image, instruction.trim(), requestSignal), signal);
+  if (key && candidates.length > 0) {
+    cache.set(key, candidates);
+    // Maps iterate in insertion order, so the first key is the oldest.
+    if (cache.size > CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+  }
+  return candidates;
+}
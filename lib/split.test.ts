@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { swapRatio } from './ratios';
+import { getTileFileName, getTiles, splitRatio } from './split';
+
+const portrait = { label: '4:5', value: 4 / 5 };
+
+describe('splitRatio', () => {
+  it('locks to the whole grid', () => {
+    const ratio = splitRatio(portrait, 3, 1);
+    expect(ratio.label).toBe('4:5 split 3×1');
+    expect(ratio.value).toBeCloseTo(12 / 5);
+    expect(ratio.split).toEqual({ columns: 3, rows: 1, tile: portrait });
+    expect(splitRatio({ label: '1:1', value: 1 }, 3, 3).value).toBe(1);
+  });
+
+  it('scales platform sizes and print sizes by the grid', () => {
+    const post = splitRatio({ label: 'Instagram Portrait 1080×1350', value: 1080 / 1350, size: { width: 1080, height: 1350 } }, 3, 1);
+    expect(post.size).toEqual({ width: 3240, height: 1350 });
+    expect(post.split!.tile.size).toEqual({ width: 1080, height: 1350 });
+
+    const print = { name: '4×6 in', width: 4, height: 6, unit: 'in' as const };
+    const prints = splitRatio({ label: '4×6 in Portrait', value: 4 / 6, print }, 2, 2);
+    expect(prints.print).toEqual({ ...print, width: 8, height: 12 });
+    expect(prints.split!.tile.print).toEqual(print);
+  });
+
+  it('keeps the counts between 1 and 10', () => {
+    expect(splitRatio(portrait, 0, 20).split).toMatchObject({ columns: 1, rows: 10 });
+    expect(splitRatio(portrait, Number.NaN, 2.4).split).toMatchObject({ columns: 1, rows: 2 });
+  });
+
+  it('turns the tiles and the grid when swapped', () => {
+    const swapped = swapRatio(splitRatio(portrait, 3, 1));
+    expect(swapped.split).toMatchObject({ columns: 1, rows: 3, tile: { label: '5:4' } });
+    expect(swapped.value).toBeCloseTo(5 / 12);
+  });
+
+  it('keeps a split of print tiles when swapped', () => {
+    const print = { name: '4×6 in', width: 4, height: 6, unit: 'in' as const };
+    const swapped = swapRatio(splitRatio({ label: '4×6 in Portrait', value: 4 / 6, print }, 3, 1));
+    expect(swapped.split).toMatchObject({ columns: 1, rows: 3, tile: { value: 6 / 4, print: { width: 6, height: 4 } } });
+    expect(swapped.value).toBeCloseTo(1 / 2);
+    expect(swapped.print).toMatchObject({ width: 6, height: 12 });
+  });
+});
+
+describe('getTiles', () => {
+  it('runs left to right, then top to bottom', () => {
+    expect(getTiles({ columns: 3, rows: 2, tile: portrait })).toEqual([
+      { column: 0, row: 0 }, { column: 1, row: 0 }, { column: 2, row: 0 },
+      { column: 0, row: 1 }, { column: 1, row: 1 }, { column: 2, row: 1 },
+    ]);
+  });
+});
+
+describe('getTileFileName', () => {
+  it('pads the number so the files sort in order', () => {
+    expect(getTileFileName('photo', 0, 3, 'jpeg')).toBe('photo-01.jpeg');
+    expect(getTileFileName('photo', 99, 100, 'png')).toBe('photo-100.png');
+    expect(getTileFileName('photo', 4, 100, 'png')).toBe('photo-005.png');
+  });
+});
@@ -0,0 +1,62 @@
+import type { Ratio, SplitGrid } from '../types';
+import { type RenderCanvas, createCanvas, get2dContext } from './surface';
+
+// Split output: one crop covering a grid of equal tiles, for panorama
+// carousels and profile grids. The crop is edited as a single ratio whose
+// value is the whole grid's, so everything downstream treats it like any
+// other; only the export cuts it up.
+
+export const MAX_SPLIT = 10;
+
+export interface Tile {
+  column: number;
+  row: number;
+}
+
+const clampCount = (count: number) => Math.min(MAX_SPLIT, Math.max(1, Math.round(count) || 1));
+
+// Platform presets keep their pixel size per tile, so a 3-tile carousel of
+// 1080×1350 exports at 3240×1350 and cuts into exact posts. Print presets
+// likewise keep their paper size per tile.
+export function splitRatio(tile: Ratio, columns: number, rows: number): Ratio {
+  const grid: SplitGrid = {
+    columns: clampCount(columns),
+    rows: clampCount(rows),
+    tile: {
+      label: tile.label,
+      value: tile.value,
+      ...(tile.size ? { size: tile.size } : {}),
+      ...(tile.print ? { print: tile.print } : {}),
+    },
+  };
+  return {
+    label: `${tile.label} split ${grid.columns}×${grid.rows}`,
+    value: (grid.columns * tile.value) / grid.rows,
+    ...(tile.size ? { size: { width: tile.size.width * grid.columns, height: tile.size.height * grid.rows } } : {}),
+    ...(tile.print
+      ? { print: { ...tile.print, width: tile.print.width * grid.columns, height: tile.print.height * grid.rows } }
+      : {}),
+    split: grid,
+  };
+}
+
+// Left to right, then top to bottom: the order the tiles are posted in.
+export const getTiles = ({ columns, rows }: SplitGrid): Tile[] =>
+  Array.from({ length: columns * rows }, (_, index) => ({ column: index % columns, row: Math.floor(index / columns) }));
+
+// One tile of the rendered output. Every tile gets the same whole-pixel size,
+// so a remainder of under one pixel per tile is dropped from the right and
+// bottom edges rather than making the tiles differ.
+export function cutTile(canvas: RenderCanvas, grid: SplitGrid, tile: Tile): RenderCanvas {
+  const width = Math.floor(canvas.width / grid.columns);
+  const height = Math.floor(canvas.height / grid.rows);
+  const output = createCanvas(width, height);
+  const ctx = get2dContext(output);
+  if (!ctx) return output;
+  ctx.drawImage(canvas, tile.column * width, tile.row * height, width, height, 0, 0, width, height);
+  return output;
+}
+
+// "photo-01.jpg": zero-padded, so they sort in posting order.
+export const getTileFileName = (baseName: string, index: number, count: number, extension: string) =>
+  `${baseName}-${String(index + 1).padStart(Math.max(2, String(count).length), '0')}.${extension}`;
@@ -0,0 +1,33 @@
+// The render path runs both on the page and inside the render worker (see
+// lib/renderWorker), so it draws from and onto either kind of image/canvas.
+
+// A decoded <img> on the page, or an ImageBitmap: in the worker, for the
+// unconverted-colour decode, or as the downscaled editing proxy.
+export type SourceImage = HTMLImageElement | ImageBitmap;
+
+// A page canvas, or an OffscreenCanvas inside the worker.
+export type RenderCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+export const getImageSize = (image: SourceImage) =>
+  'naturalWidth' in image
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+
+export function createCanvas(width = 0, height = 0): RenderCanvas {
+  if (typeof document === 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+export const isOffscreen = (canvas: RenderCanvas): canvas is OffscreenCanvas =>
+  typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas;
+
+// The context of either kind of canvas. Both have the drawing API the
+// render path uses.
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export function get2dContext(canvas: RenderCanvas, options?: CanvasRenderingContext2DSettings): RenderContext | null {
+  return canvas.getContext('2d', options);
+}
@@ -0,0 +1,113 @@
+import type { PercentCrop, PixelCrop } from 'react-image-crop';
+import { percentToPixelCrop } from './crop';
+import { type RenderContext, type SourceImage, getImageSize } from './surface';
+
+// The geometric edits applied to the source before anything is cropped. The
+// editor, previews, smart crop and export all draw through `drawTransformed`,
+// and crops are stored in percent of the transformed "frame": the image
+// turned by its quarter turns, flipped, then straightened and zoomed just
+// enough that the frame never shows an empty corner.
+
+export interface Transform {
+  // Quarter turns, in degrees: 0, 90, 180 or 270.
+  rotation: number;
+  // Fine rotation for levelling horizons, in degrees, clockwise.
+  straighten: number;
+  flipH: boolean;
+  flipV: boolean;
+}
+
+export const IDENTITY_TRANSFORM: Transform = { rotation: 0, straighten: 0, flipH: false, flipV: false };
+
+export const MAX_STRAIGHTEN = 45;
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+export const isQuarterTurned = (transform: Transform) => transform.rotation === 90 || transform.rotation === 270;
+
+export const isSameTransform = (a: Transform, b: Transform) =>
+  a.rotation === b.rotation && a.straighten === b.straighten && a.flipH === b.flipH && a.flipV === b.flipV;
+
+export function getFrameSize(width: number, height: number, transform: Transform): Size {
+  return isQuarterTurned(transform) ? { width: height, height: width } : { width, height };
+}
+
+// How much the straightened image has to be enlarged to still cover a frame
+// of the given size.
+export function getStraightenZoom(width: number, height: number, degrees: number): number {
+  const angle = (Math.abs(degrees) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return Math.max((width * cos + height * sin) / width, (width * sin + height * cos) / height);
+}
+
+// Maps the image's natural pixels to frame pixels.
+export function getFrameMatrix(naturalWidth: number, naturalHeight: number, transform: Transform): DOMMatrix {
+  const frame = getFrameSize(naturalWidth, naturalHeight, transform);
+  const zoom = getStraightenZoom(frame.width, frame.height, transform.straighten);
+  // Flips apply after the quarter turn and before straightening, so they
+  // mirror what is on screen and the slider keeps turning clockwise.
+  return new DOMMatrix()
+    .translate(frame.width / 2, frame.height / 2)
+    .rotate(transform.straighten)
+    .scale(transform.flipH ? -1 : 1, transform.flipV ? -1 : 1)
+    .rotate(transform.rotation)
+    .scale(zoom, zoom)
+    .translate(-naturalWidth / 2, -naturalHeight / 2);
+}
+
+// Draws the transformed image so that its frame fills the given rectangle.
+export function drawTransformed(
+  ctx: RenderContext,
+  image: SourceImage,
+  transform: Transform,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+) {
+  const { width: naturalWidth, height: naturalHeight } = getImageSize(image);
+  const frame = getFrameSize(naturalWidth, naturalHeight, transform);
+  const matrix = getFrameMatrix(naturalWidth, naturalHeight, transform);
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.scale(width / frame.width, height / frame.height);
+  ctx.transform(matrix.a, matrix.b, matrix.c, matrix.d, matrix.e, matrix.f);
+  ctx.drawImage(image, 0, 0);
+  ctx.restore();
+}
+
+// A crop in percent of the frame, in frame pixels.
+export function getFrameCrop(crop: PercentCrop, naturalWidth: number, naturalHeight: number, transform: Transform): PixelCrop {
+  const frame = getFrameSize(naturalWidth, naturalHeight, transform);
+  return percentToPixelCrop(crop, frame.width, frame.height);
+}
+
+// Maps a box found on the untransformed image (e.g. by the AI model, which
+// sees the file as uploaded) into the frame, as the bounding box of its
+// transformed corners, clipped to the frame.
+export function mapBoxToFrame(box: PercentCrop, naturalWidth: number, naturalHeight: number, transform: Transform): PercentCrop {
+  const frame = getFrameSize(naturalWidth, naturalHeight, transform);
+  const matrix = getFrameMatrix(naturalWidth, naturalHeight, transform);
+  const pixels = percentToPixelCrop(box, naturalWidth, naturalHeight);
+  const corners = [
+    [pixels.x, pixels.y],
+    [pixels.x + pixels.width, pixels.y],
+    [pixels.x, pixels.y + pixels.height],
+    [pixels.x + pixels.width, pixels.y + pixels.height],
+  ].map(([x, y]) => matrix.transformPoint(new DOMPoint(x, y)));
+  const left = Math.max(0, Math.min(...corners.map(p => p.x)));
+  const top = Math.max(0, Math.min(...corners.map(p => p.y)));
+  const right = Math.min(frame.width, Math.max(...corners.map(p => p.x)));
+  const bottom = Math.min(frame.height, Math.max(...corners.map(p => p.y)));
+  return {
+    unit: '%',
+    x: (left / frame.width) * 100,
+    y: (top / frame.height) * 100,
+    width: (Math.max(0, right - left) / frame.width) * 100,
+    height: (Math.max(0, bottom - top) / frame.height) * 100,
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip, uniqueName } from './zip';
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// Reads the entries back through the central directory, the way unzip does.
+function readZip(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let record = view.getUint32(end + 16, true);
+  const entries: { name: string; data: Uint8Array; crc: number }[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(record, true)).toBe(0x02014b50);
+    const crc = view.getUint32(record + 16, true);
+    const size = view.getUint32(record + 20, true);
+    const nameLength = view.getUint16(record + 28, true);
+    const local = view.getUint32(record + 42, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    entries.push({
+      name: new TextDecoder().decode(bytes.subarray(record + 46, record + 46 + nameLength)),
+      data: bytes.subarray(dataStart, dataStart + size),
+      crc,
+    });
+    record += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('is 0 for no data', () => {
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('stores every entry so it can be read back', async () => {
+    const zip = await createZip([
+      { name: 'a.txt', data: 'hello' },
+      { name: 'photo-é.jpg', data: new Uint8Array([1, 2, 3]) },
+      { name: 'c.bin', data: new Blob([new Uint8Array([9, 8])]) },
+    ]);
+    expect(zip.type).toBe('application/zip');
+
+    const entries = readZip(await bytesOf(zip));
+    expect(entries.map(entry => entry.name)).toEqual(['a.txt', 'photo-é.jpg', 'c.bin']);
+    expect(new TextDecoder().decode(entries[0].data)).toBe('hello');
+    expect([...entries[1].data]).toEqual([1, 2, 3]);
+    expect([...entries[2].data]).toEqual([9, 8]);
+    entries.forEach(entry => expect(entry.crc).toBe(crc32(entry.data)));
+  });
+
+  it('writes an empty archive', async () => {
+    expect(readZip(await bytesOf(await createZip([])))).toEqual([]);
+  });
+});
+
+describe('uniqueName', () => {
+  it('numbers repeats before the extension', () => {
+    const taken = new Set<string>();
+    expect(uniqueName('a.jpg', taken)).toBe('a.jpg');
+    expect(uniqueName('a.jpg', taken)).toBe('a (2).jpg');
+    expect(uniqueName('a.jpg', taken)).toBe('a (3).jpg');
+    expect(uniqueName('README', taken)).toBe('README');
+    expect(uniqueName('README', taken)).toBe('README (2)');
+  });
+});
@@ -0,0 +1,42 @@
+import type { PercentCrop } from 'react-image-crop';
+
+export interface Ratio {
+  label: string;
+  value: number;
+  // Platform presets pin the exported pixel size as well as the aspect.
+  size?: { width: number; height: number };
+  // Print presets are a physical size instead (see lib/print).
+  print?: PrintSize;
+  // Split outputs crop the whole grid and export each tile (see lib/split).
+  split?: SplitGrid;
+}
+
+export interface SplitGrid {
+  columns: number;
+  rows: number;
+  // The ratio of each tile.
+  tile: Ratio;
+}
+
+// A print's trim size, in this orientation.
+export interface PrintSize {
+  // The paper name without orientation, e.g. "5×7 in" or "A4".
+  name: string;
+  width: number;
+  height: number;
+  unit: 'in' | 'mm';
+}
+
+export interface RatioGroup {
+  name: string;
+  ratios: Ratio[];
+}
+
+// 'ai' asks the provider picked in the AI settings (see lib/aiSettings).
+export type SmartCropEngine = 'local' | 'ai';
+
+export interface SmartCropCandidate {
+  label: string;
+  // In percent of the untransformed image (see mapBoxToFrame).
+  box: PercentCrop;
+}